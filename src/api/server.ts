@@ -3,35 +3,223 @@ import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
 import compression from 'compression';
-import { SimpleSpotifyModel } from '@/models/SimpleModel';
-import { DataProcessor } from '@/data/DataProcessor';
+import { EmbeddingExtractor } from '@/models/EmbeddingExtractor';
+import { LoadedModel, ModelRegistry } from '@/models/ModelRegistry';
+import { AnalysisJob, SessionAnalyzer } from '@/models/SessionAnalyzer';
+import { InferenceScheduler } from '@/models/InferenceScheduler';
+import { PlaylistGenerator, PlaylistOptions, PoolTrack } from '@/models/PlaylistGenerator';
+import { InMemorySessionStore, SessionStore } from '@/data/SessionStore';
+import { TrackCatalog } from '@/data/TrackCatalog';
+import { CredentialStore, InMemoryCredentialStore } from '@/data/CredentialStore';
+import { ApiKeyAuth } from '@/data/ApiKeyAuth';
+import { ApiKeyStore, FileApiKeyStore, InMemoryApiKeyStore } from '@/data/ApiKeyStore';
+import { RateLimiter } from '@/data/RateLimiter';
+import { InMemoryRateLimitStore, RateLimitStore } from '@/data/RateLimitStore';
+import { SpotifyAuth } from '@/data/SpotifyAuth';
+import { SpotifyClient } from '@/data/SpotifyClient';
+import { HistoryImporter, HistoryImportOptions } from '@/data/HistoryImporter';
+import { LastfmHistoryImporter } from '@/data/LastfmHistoryImporter';
+import { ListenBrainzHistoryImporter } from '@/data/ListenBrainzHistoryImporter';
+import { SpotifyHistoryImporter } from '@/data/SpotifyHistoryImporter';
 import { 
   AnalyzeRequest, 
   AnalyzeResponse, 
   HealthCheckResponse, 
+  ApiKeyNotFoundError,
+  ApiKeyRecord,
+  ApiKeyScope,
+  AuthenticationError,
+  BatchAnalysisItem,
+  CatalogError,
+  CatalogFeature,
+  ForbiddenError,
+  GeneratePlaylistRequest,
+  HistoryAnalysis,
+  HistoryImportQuery,
+  HistorySource,
+  InputParseError,
+  ListeningSession,
+  PlaylistCandidate,
+  SessionAnalysisItem,
+  Track,
   TrackFeatures,
-  ModelPredictions,
+  ListeningAnalyzerError,
+  RateLimitedError,
+  SessionEmbedding,
+  SessionNotFoundError,
+  StoredSession,
   ValidationError,
   ModelError,
   AppConfig
 } from '@/types';
+import { ERROR_CATALOG, toApiError } from '@/utils/errors';
 import { logger } from '@/utils/logger';
-import { validateAnalyzeRequest } from '@/utils/validation';
-import { join } from 'path';
-import * as tf from '@tensorflow/tfjs-node';
+import { REQUEST_ID_HEADER, resolveRequestId, runWithRequestContext } from '@/utils/requestContext';
+import {
+  validateAnalyzeBatchRequest,
+  validateAnalyzeRequest,
+  validateAppendTracksRequest,
+  validateCreateApiKeyRequest,
+  validateCreateSessionRequest,
+  validateEmbedRequest,
+  validateGeneratePlaylistRequest,
+  validateHistoryAnalysisQuery,
+  validateHistoryImportQuery,
+  validatePlanTrajectoryRequest,
+  validateRecommendRequest,
+  validateScoreTransitionsRequest
+} from '@/utils/validation';
+import { featuresToVector, toPartialTrackFeatures, toTrackFeatures } from '@/utils/normalization';
+import { playEventFeatures } from '@/utils/behavior';
+import { TRAJECTORY_PRESETS, interpolateTrajectory } from '@/utils/trajectory';
+import { DEFAULT_TRANSITION_WEIGHTS, scoreTransitions } from '@/utils/transitions';
+import { historyTrackFeatures, splitIntoSessions, summarizeHistory, toHistoryTrack } from '@/utils/history';
+import { randomUUID } from 'crypto';
+
+// Routes whose handlers consume the request body themselves
+const STREAMING_ROUTES = new Set(['/imports/spotify-history', '/imports/lastfm', '/imports/listenbrainz']);
+
+// Apache combined log format
+const ACCESS_LOG_FORMAT =
+  ':remote-addr - :remote-user [:date[clf]] ":method :url HTTP/:http-version" :status :res[content-length] ":referrer" ":user-agent"';
+
+/**
+ * Optional collaborators; anything omitted gets an in-process default
+ */
+export interface VibeChainDependencies {
+  sessionStore?: SessionStore;
+  catalog?: TrackCatalog;
+  credentialStore?: CredentialStore;
+  apiKeyStore?: ApiKeyStore;
+  rateLimitStore?: RateLimitStore;
+}
+
+/**
+ * Public view of an API key; the hash never leaves the server
+ */
+const toApiKeySummary = (record: ApiKeyRecord) => ({
+  id: record.id,
+  name: record.name,
+  key_prefix: record.key_prefix,
+  scopes: record.scopes,
+  hourly_quota: record.hourly_quota ?? null,
+  daily_quota: record.daily_quota ?? null,
+  created_at: record.created_at
+});
+
+/**
+ * Key presented as a bearer token or in X-API-Key
+ */
+const presentedApiKey = (req: express.Request): string | undefined => {
+  const header = req.get('Authorization') || '';
+  return header.startsWith('Bearer ') ? header.slice(7) : req.get('X-API-Key') || undefined;
+};
+
+/**
+ * Public view of a stored session
+ */
+const toSessionSummary = (session: StoredSession) => ({
+  session_id: session.session_id,
+  track_count: session.tracks.length,
+  total_plays: session.total_plays,
+  options: session.options,
+  created_at: session.created_at,
+  updated_at: session.updated_at,
+  expires_at: session.expires_at
+});
+
+/**
+ * Model-space tracks for an analyze request; play-event logs get their
+ * behavioral features derived, and the latest 100 plays are analyzed
+ */
+const toAnalysisTracks = (request: AnalyzeRequest): Array<Partial<TrackFeatures>> => {
+  return request.play_events
+    ? playEventFeatures(request.play_events).slice(-100)
+    : request.tracks!.map(toPartialTrackFeatures);
+};
+
+/**
+ * Normalize a request's candidate pool into model space
+ */
+const toPoolTracks = (candidates: PlaylistCandidate[]): PoolTrack[] => {
+  return candidates.map(candidate => ({
+    id: candidate.id,
+    name: candidate.name,
+    artist: candidate.artist,
+    features: toTrackFeatures(candidate.features)
+  }));
+};
+
+/**
+ * Search options shared by the playlist endpoints
+ */
+const toPlaylistOptions = (options: NonNullable<GeneratePlaylistRequest['options']>): PlaylistOptions => ({
+  strategy: options.strategy || 'beam',
+  beamWidth: options.beam_width || 4,
+  artistSeparation: options.artist_separation ?? 3,
+  modelVersion: options.model_version,
+  transitionWeight: options.transition_weight ?? 0,
+  transitionWeights: { ...DEFAULT_TRANSITION_WEIGHTS, ...options.transition_weights }
+});
+
+/**
+ * Per-session failure entry for batch responses
+ */
+const toBatchFailure = (sessionId: string, error: unknown): BatchAnalysisItem => {
+  if (!(error instanceof ListeningAnalyzerError)) {
+    logger.error(`Batch analysis error for session ${sessionId}:`, error);
+  }
+
+  return {
+    session_id: sessionId,
+    success: false,
+    error: toApiError(error).error
+  };
+};
 
 export class VibeChainAPI {
   private app: express.Application;
-  private model: SimpleSpotifyModel | null = null;
-  private dataProcessor: DataProcessor;
+  private registry: ModelRegistry;
+  private scheduler: InferenceScheduler;
+  private analyzer: SessionAnalyzer;
+  private playlists: PlaylistGenerator;
+  private sessions: SessionStore;
+  private catalog: TrackCatalog | null;
+  private spotifyAuth: SpotifyAuth;
+  private apiKeys: ApiKeyAuth;
+  private rateLimiter: RateLimiter;
   private config: AppConfig;
   private startTime: Date;
 
-  constructor(config: AppConfig) {
+  constructor(config: AppConfig, dependencies: VibeChainDependencies = {}) {
     this.config = config;
     this.app = express();
-    this.dataProcessor = new DataProcessor();
     this.startTime = new Date();
+    this.registry = new ModelRegistry(
+      config.registry,
+      config.analysis.confidencePasses,
+      config.model.embedDim
+    );
+    this.scheduler = new InferenceScheduler(config.scheduler);
+    this.analyzer = new SessionAnalyzer(this.registry, this.scheduler, config.analysis);
+    this.playlists = new PlaylistGenerator(this.registry, this.scheduler);
+    this.sessions = dependencies.sessionStore || new InMemorySessionStore(config.sessions.ttlMs);
+    this.catalog = dependencies.catalog || null;
+    this.spotifyAuth = new SpotifyAuth(
+      config.spotify,
+      dependencies.credentialStore || new InMemoryCredentialStore()
+    );
+    this.apiKeys = new ApiKeyAuth(
+      dependencies.apiKeyStore || (config.auth.store === 'file'
+        ? new FileApiKeyStore(config.auth.storePath)
+        : new InMemoryApiKeyStore()),
+      config.auth,
+      config.api.adminKey
+    );
+    this.rateLimiter = new RateLimiter(
+      config.rateLimit,
+      dependencies.rateLimitStore || new InMemoryRateLimitStore()
+    );
 
     this.setupMiddleware();
     this.setupRoutes();
@@ -41,6 +229,11 @@ export class VibeChainAPI {
   }
 
   private setupMiddleware(): void {
+    // req.ip is the first X-Forwarded-For hop, so clients behind one proxy get their own buckets
+    if (this.config.rateLimit.trustProxy) {
+      this.app.set('trust proxy', 1);
+    }
+
     this.app.use(helmet());
     this.app.use(compression());
     this.app.use(cors({
@@ -48,50 +241,131 @@ export class VibeChainAPI {
       credentials: true
     }));
 
-    this.app.use(morgan('combined', {
+    // Tag every request with an ID, echoed back so clients can quote it, and
+    // run the rest of the request in its context so every log line carries
+    // the ID. This comes before the body parsers so their errors are tagged too.
+    this.app.use((req: any, res, next) => {
+      req.startTime = Date.now();
+      req.requestId = resolveRequestId(req.get(REQUEST_ID_HEADER));
+      res.set(REQUEST_ID_HEADER, req.requestId);
+      runWithRequestContext({ requestId: req.requestId }, next);
+    });
+
+    // Access lines are written when the response finishes, still inside the
+    // request context, so the logger tags them with the ID
+    this.app.use(morgan(ACCESS_LOG_FORMAT, {
       stream: { write: (message: string) => logger.info(message.trim()) }
     }));
-    this.app.use(express.json({ limit: '10mb' }));
-    this.app.use(express.urlencoded({ extended: true }));
+    // Upload routes read the raw body as a stream instead of buffering it
+    const jsonParser = express.json({ limit: '10mb' });
+    const urlencodedParser = express.urlencoded({ extended: true });
+    this.app.use((req, res, next) => STREAMING_ROUTES.has(req.path) ? next() : jsonParser(req, res, next));
+    this.app.use((req, res, next) => STREAMING_ROUTES.has(req.path) ? next() : urlencodedParser(req, res, next));
 
-    // Add processing time to requests
-    this.app.use((req: any, res, next) => {
-      req.startTime = Date.now();
+    // Identify the caller when a key is presented; routes decide whether one is required
+    this.app.use(async (req: any, res, next) => {
+      const presented = presentedApiKey(req);
+      if (!presented) {
+        next();
+        return;
+      }
+
+      try {
+        req.apiKey = await this.apiKeys.authenticate(presented);
+      } catch (error) {
+        // Reported after the rate limiter has charged the attempt
+        req.authError = error;
+      }
       next();
     });
+
+    // Burst protection per key, or per IP for anonymous callers and failed
+    // authentications, so guessing keys is throttled too; runs before quotas
+    // so throttled requests don't use them up
+    this.app.use(async (req: any, res, next) => {
+      try {
+        const client = req.apiKey ? `key:${req.apiKey.id}` : `ip:${req.ip}`;
+        const result = await this.rateLimiter.consume(client, req.method, req.path);
+        if (result) {
+          res.set({
+            'RateLimit-Limit': String(result.limit),
+            'RateLimit-Remaining': String(result.remaining),
+            'RateLimit-Reset': String(Math.ceil(result.resetMs / 1000)),
+            'RateLimit-Policy': result.policy
+          });
+          if (!result.allowed) {
+            next(new RateLimitedError(result.limit, result.cost, result.retryAfterMs));
+            return;
+          }
+        }
+        next(req.authError);
+      } catch (error) {
+        next(error);
+      }
+    });
   }
 
   private setupRoutes(): void {
+    const analyze = this.requireScope('analyze');
+    const training = this.requireScope('training');
+    const admin = this.requireScope('admin');
+    // Spotify connections belong to an API key, so they need one even when keys are optional
+    const spotify = this.requireScope('analyze', true);
+
     this.app.get('/health', this.handleHealthCheck.bind(this));
-    this.app.post('/analyze', this.handleAnalyze.bind(this));
+    this.app.get('/errors', this.handleErrorCatalog.bind(this));
+    this.app.get('/usage', this.handleUsage.bind(this));
+    this.app.get('/auth/login', spotify, this.handleAuthLogin.bind(this));
+    this.app.get('/auth/callback', this.handleAuthCallback.bind(this));
+    this.app.get('/me/analysis', spotify, this.handleMyAnalysis.bind(this));
+    this.app.post('/imports/spotify-history', training, this.handleHistoryImport.bind(this, 'spotify'));
+    this.app.post('/imports/lastfm', training, this.handleHistoryImport.bind(this, 'lastfm'));
+    this.app.post('/imports/listenbrainz', training, this.handleHistoryImport.bind(this, 'listenbrainz'));
+    this.app.post('/analyze', analyze, this.handleAnalyze.bind(this));
+    this.app.post('/analyze/batch', analyze, this.handleAnalyzeBatch.bind(this));
+    this.app.post('/sessions', analyze, this.handleCreateSession.bind(this));
+    this.app.post('/sessions/:id/tracks', analyze, this.handleAppendTracks.bind(this));
+    this.app.get('/sessions/:id/prediction', analyze, this.handleSessionPrediction.bind(this));
+    this.app.delete('/sessions/:id', analyze, this.handleDeleteSession.bind(this));
+    this.app.post('/playlists/generate', analyze, this.handleGeneratePlaylist.bind(this));
+    this.app.post('/playlists/trajectory', analyze, this.handlePlanTrajectory.bind(this));
+    this.app.post('/transitions/score', analyze, this.handleScoreTransitions.bind(this));
+    this.app.post('/recommend', analyze, this.handleRecommend.bind(this));
+    this.app.post('/embed', analyze, this.handleEmbed.bind(this));
     this.app.get('/model/info', this.handleModelInfo.bind(this));
+    this.app.get('/models', this.handleListModels.bind(this));
+    this.app.get('/model/stats', this.handleModelStats.bind(this));
+    this.app.post('/model/reload', admin, this.handleModelReload.bind(this));
+    this.app.post('/keys', admin, this.handleCreateApiKey.bind(this));
+    this.app.get('/keys', admin, this.handleListApiKeys.bind(this));
+    this.app.delete('/keys/:id', admin, this.handleRevokeApiKey.bind(this));
   }
 
   private setupErrorHandling(): void {
+    // Unmatched routes get the same envelope as every other error
+    this.app.use((req, res, next) => {
+      next(new ListeningAnalyzerError(`No route for ${req.method} ${req.path}`, 'NOT_FOUND', 404));
+    });
+
     this.app.use((err: any, req: any, res: express.Response, next: express.NextFunction) => {
-      const processingTime = Date.now() - req.startTime;
-      
-      logger.error('API Error:', err);
-      
-      if (err instanceof ValidationError) {
-        res.status(400).json({
-          success: false,
-          error: err.message,
-          processing_time_ms: processingTime
-        });
-      } else if (err instanceof ModelError) {
-        res.status(500).json({
-          success: false,
-          error: err.message,
-          processing_time_ms: processingTime
-        });
+      const { status, error } = toApiError(err);
+
+      if (status >= 500) {
+        logger.error('API Error:', err);
       } else {
-        res.status(500).json({
-          success: false,
-          error: 'Internal server error',
-          processing_time_ms: processingTime
-        });
+        logger.warn(`API Error: ${error.code} ${error.message}`);
       }
+
+      // Rate-limit, quota and upstream rate-limit or outage errors say when to come back
+      if ((status === 429 || status === 503) && typeof err.retryAfterMs === 'number') {
+        res.set('Retry-After', String(Math.ceil(err.retryAfterMs / 1000)));
+      }
+
+      res.status(status).json({
+        success: false,
+        error: { ...error, request_id: req.requestId },
+        processing_time_ms: Date.now() - req.startTime
+      });
     });
   }
 
@@ -101,7 +375,7 @@ export class VibeChainAPI {
 
     const response: HealthCheckResponse = {
       status: 'healthy',
-      model_loaded: this.model !== null,
+      model_loaded: this.registry.size() > 0,
       uptime_seconds: uptime,
       memory_usage: {
         used: memoryUsage.heapUsed,
@@ -112,43 +386,385 @@ export class VibeChainAPI {
     res.json(response);
   }
 
-  private async handleModelInfo(req: any, res: express.Response): Promise<void> {
+  private handleErrorCatalog(req: any, res: express.Response): void {
+    res.json({
+      success: true,
+      data: Object.keys(ERROR_CATALOG).map(code => ({ code, ...ERROR_CATALOG[code] })),
+      processing_time_ms: Date.now() - req.startTime
+    });
+  }
+
+  private async handleModelInfo(req: any, res: express.Response, next: express.NextFunction): Promise<void> {
     const processingTime = Date.now() - req.startTime;
 
-    if (!this.model) {
-      res.status(404).json({
-        success: false,
-        error: 'No model loaded',
+    try {
+      const entry = this.registry.get(req.query.version as string | undefined);
+
+      res.json({
+        success: true,
+        data: {
+          model_loaded: true,
+          model_type: 'SimpleSpotifyModel',
+          model_version: entry.version,
+          input_features: 20,
+          output_features: 3,
+          embedding_dim: entry.embeddings?.getDimension() ?? null
+        },
         processing_time_ms: processingTime
       });
-      return;
+    } catch (error) {
+      next(error);
     }
+  }
 
+  private async handleListModels(req: any, res: express.Response): Promise<void> {
     res.json({
       success: true,
       data: {
-        model_loaded: true,
-        model_type: 'SimpleSpotifyModel',
-        input_features: 20,
-        output_features: 3
+        default_version: this.registry.size() > 0 ? this.registry.getDefaultVersion() : null,
+        models: this.registry.list()
       },
-      processing_time_ms: processingTime
+      processing_time_ms: Date.now() - req.startTime
     });
   }
 
-  private async handleAnalyze(req: any, res: express.Response): Promise<void> {
-    const processingTime = Date.now() - req.startTime;
+  private async handleModelStats(req: any, res: express.Response): Promise<void> {
+    res.json({
+      success: true,
+      data: this.scheduler.getStats(),
+      processing_time_ms: Date.now() - req.startTime
+    });
+  }
+
+  /**
+   * Gate a route on an API key scope and count the request against the key's
+   * quotas. Anonymous callers pass analyze and training routes unless
+   * API_KEYS_REQUIRED is set or `keyRequired` is; admin routes always need a key.
+   */
+  private requireScope(scope: ApiKeyScope, keyRequired = false): express.RequestHandler {
+    return async (req: any, res, next) => {
+      const apiKey: ApiKeyRecord | undefined = req.apiKey;
+      if (!apiKey) {
+        if (scope !== 'admin' && !this.config.auth.required && !keyRequired) {
+          next();
+          return;
+        }
+        next(new AuthenticationError('API key required'));
+        return;
+      }
 
+      if (!apiKey.scopes.includes(scope)) {
+        next(new ForbiddenError(`API key lacks the '${scope}' scope`));
+        return;
+      }
+
+      try {
+        req.usage = await this.apiKeys.consume(apiKey);
+        next();
+      } catch (error) {
+        next(error);
+      }
+    };
+  }
+
+  private async handleUsage(req: any, res: express.Response, next: express.NextFunction): Promise<void> {
     try {
-      if (!this.model) {
-        throw new ModelError('No model loaded');
+      const apiKey: ApiKeyRecord | undefined = req.apiKey;
+      if (!apiKey) {
+        throw new AuthenticationError('API key required');
+      }
+
+      // Admins may look up any key
+      const keyId = typeof req.query.key_id === 'string' ? req.query.key_id : apiKey.id;
+      if (keyId !== apiKey.id && !apiKey.scopes.includes('admin')) {
+        throw new ForbiddenError("Reading another key's usage requires the 'admin' scope");
+      }
+      const record = keyId === apiKey.id ? apiKey : await this.apiKeys.get(keyId);
+      if (!record) {
+        throw new ApiKeyNotFoundError(keyId);
+      }
+
+      res.json({
+        success: true,
+        data: {
+          key: toApiKeySummary(record),
+          usage: await this.apiKeys.usage(record)
+        },
+        processing_time_ms: Date.now() - req.startTime
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async handleCreateApiKey(req: any, res: express.Response, next: express.NextFunction): Promise<void> {
+    try {
+      const request = validateCreateApiKeyRequest(req.body);
+      const { key, record } = await this.apiKeys.create(request);
+      logger.info(`API key ${record.id} (${record.name}) created with scopes ${record.scopes.join(', ')}`);
+
+      res.status(201).json({
+        success: true,
+        data: { ...toApiKeySummary(record), key },
+        processing_time_ms: Date.now() - req.startTime
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async handleListApiKeys(req: any, res: express.Response, next: express.NextFunction): Promise<void> {
+    try {
+      const records = await this.apiKeys.list();
+      res.json({
+        success: true,
+        data: { keys: records.map(toApiKeySummary) },
+        processing_time_ms: Date.now() - req.startTime
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async handleRevokeApiKey(req: any, res: express.Response, next: express.NextFunction): Promise<void> {
+    try {
+      if (!(await this.apiKeys.revoke(req.params.id))) {
+        throw new ApiKeyNotFoundError(req.params.id);
+      }
+      logger.info(`API key ${req.params.id} revoked`);
+
+      res.json({
+        success: true,
+        data: { id: req.params.id, revoked: true },
+        processing_time_ms: Date.now() - req.startTime
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async handleModelReload(req: any, res: express.Response, next: express.NextFunction): Promise<void> {
+    try {
+      const report = await this.registry.reload(req.body?.force === true);
+
+      res.json({
+        success: report.failed.length === 0,
+        data: {
+          ...report,
+          default_version: this.registry.size() > 0 ? this.registry.getDefaultVersion() : null
+        },
+        processing_time_ms: Date.now() - req.startTime
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private handleAuthLogin(req: any, res: express.Response): void {
+    const { authorizeUrl, state } = this.spotifyAuth.login(req.apiKey.id);
+
+    // API clients can ask for the URL instead of a redirect
+    if (req.query.redirect === 'false') {
+      res.json({
+        success: true,
+        data: { authorize_url: authorizeUrl, state },
+        processing_time_ms: Date.now() - req.startTime
+      });
+      return;
+    }
+    res.redirect(authorizeUrl);
+  }
+
+  private async handleAuthCallback(req: any, res: express.Response, next: express.NextFunction): Promise<void> {
+    try {
+      const credentials = await this.spotifyAuth.callback({
+        code: typeof req.query.code === 'string' ? req.query.code : undefined,
+        state: typeof req.query.state === 'string' ? req.query.state : undefined,
+        error: typeof req.query.error === 'string' ? req.query.error : undefined
+      });
+
+      res.json({
+        success: true,
+        data: {
+          user_id: credentials.user_id,
+          scope: credentials.scope,
+          expires_at: credentials.expires_at
+        },
+        processing_time_ms: Date.now() - req.startTime
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async handleMyAnalysis(req: any, res: express.Response, next: express.NextFunction): Promise<void> {
+    try {
+      const userId = req.get('X-User-Id');
+      if (!userId) {
+        throw new AuthenticationError('Missing X-User-Id header');
+      }
+      const query = validateHistoryAnalysisQuery(req.query);
+      const client = this.createSpotifyClient(userId, req.apiKey.id);
+
+      // Join plays with audio features; tracks without usable features are skipped
+      const items = await client.getRecentlyPlayed({ maxItems: query.max_items });
+      const ids = Array.from(new Set(items.map(item => item.track.id)));
+      const features = await client.getAudioFeatures(ids);
+      const featuresById = new Map(ids.map((id, i) => [id, features[i]]));
+      const tracks = items
+        .map(item => toHistoryTrack(item, featuresById.get(item.track.id) || null))
+        .filter(track => historyTrackFeatures(track, query.utc_offset_minutes) !== null);
+
+      const sessions = splitIntoSessions(tracks, query.gap_minutes * 60000);
+      const analysis = await this.analyzeHistory(sessions, query.utc_offset_minutes, query.model_version);
+
+      res.json({
+        success: true,
+        data: {
+          ...analysis,
+          skipped_without_features: items.length - tracks.length
+        },
+        processing_time_ms: Date.now() - req.startTime
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async handleHistoryImport(
+    source: HistorySource,
+    req: any,
+    res: express.Response,
+    next: express.NextFunction
+  ): Promise<void> {
+    try {
+      const query = validateHistoryImportQuery(req.query);
+      if (!this.catalog || this.catalog.size() === 0) {
+        throw new CatalogError('Track catalog is not loaded; imported plays cannot be matched to features');
+      }
+
+      const importer = this.createHistoryImporter(source, this.catalog, query, req);
+      try {
+        await importer.ingest(req);
+      } catch (error) {
+        // Size limits, client aborts and bugs keep their own status
+        if (!(error instanceof InputParseError)) {
+          throw error;
+        }
+        throw new ValidationError(`Invalid ${source} history file: ${error.message}`);
       }
 
+      const imported = importer.build();
+      const recent = imported.sessions.slice(-query.max_sessions);
+
+      res.json({
+        success: true,
+        data: {
+          report: imported.report,
+          sessions: recent,
+          analysis: query.analyze
+            ? await this.analyzeHistory(imported.sessions, query.utc_offset_minutes, query.model_version, query.max_sessions)
+            : undefined
+        },
+        processing_time_ms: Date.now() - req.startTime
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private createHistoryImporter(
+    source: HistorySource,
+    catalog: TrackCatalog,
+    query: HistoryImportQuery,
+    req: any
+  ): HistoryImporter {
+    const options: HistoryImportOptions = {
+      gapMs: query.gap_minutes * 60000,
+      utcOffsetMinutes: query.utc_offset_minutes,
+      maxBytes: this.config.imports.maxBytes,
+      minMatchScore: this.config.imports.minMatchScore
+    };
+
+    switch (source) {
+      case 'lastfm':
+        return new LastfmHistoryImporter(catalog, {
+          ...options,
+          format: query.format || (req.is('text/csv') ? 'csv' : 'json')
+        });
+      case 'listenbrainz':
+        return new ListenBrainzHistoryImporter(catalog, options);
+      default:
+        return new SpotifyHistoryImporter(catalog, options);
+    }
+  }
+
+  /**
+   * Analyze each session plus the history as a whole, and summarize it.
+   * Only the most recent `maxSessions` sessions are analyzed individually.
+   */
+  private async analyzeHistory(
+    sessions: ListeningSession[],
+    utcOffsetMinutes: number,
+    modelVersion?: string,
+    maxSessions = Infinity
+  ): Promise<HistoryAnalysis> {
+    const tracks = ([] as Track[]).concat(...sessions.map(session => session.tracks));
+    const analyzed = sessions.slice(-maxSessions);
+    const toJob = (sessionTracks: Track[]): AnalysisJob => ({
+      tracks: sessionTracks.slice(-100).map(track => historyTrackFeatures(track, utcOffsetMinutes)!),
+      options: { model_version: modelVersion }
+    });
+
+    // Sessions and the whole-history view go through the scheduler together
+    const jobs = analyzed.map(session => toJob(session.tracks));
+    if (tracks.length > 0) {
+      jobs.push(toJob(tracks));
+    }
+    const outcomes = await this.analyzer.analyzeMany(jobs);
+
+    const sessionResults: SessionAnalysisItem[] = analyzed.map((session, i) => {
+      const outcome = outcomes[i];
+      const item = {
+        session_id: session.session_id,
+        start_time: session.start_time,
+        end_time: session.end_time,
+        tracks: session.tracks.map(({ id, name, artist, played_at }) => ({ id, name, artist, played_at }))
+      };
+      return outcome instanceof Error
+        ? { ...item, ...toBatchFailure(session.session_id, outcome) }
+        : { ...item, success: true, data: outcome };
+    });
+
+    const overall = tracks.length > 0 ? outcomes[outcomes.length - 1] : null;
+    if (overall instanceof Error) {
+      throw overall;
+    }
+
+    return {
+      summary: summarizeHistory(tracks, sessions, utcOffsetMinutes),
+      overall,
+      sessions: sessionResults
+    };
+  }
+
+  private createSpotifyClient(userId: string, apiKeyId: string): SpotifyClient {
+    return new SpotifyClient(
+      () => this.spotifyAuth.getAccessToken(userId, apiKeyId),
+      { baseUrl: this.config.spotify.apiBaseUrl }
+    );
+  }
+
+  private async handleAnalyze(req: any, res: express.Response, next: express.NextFunction): Promise<void> {
+    try {
       // Validate request
       const analyzeRequest: AnalyzeRequest = validateAnalyzeRequest(req.body);
       
+      // Normalize raw Spotify features into model space
+      const tracks = toAnalysisTracks(analyzeRequest);
+
       // Process the analysis
-      const result = await this.performAnalysis(analyzeRequest.tracks, analyzeRequest.options);
+      const result = await this.analyzer.analyze(tracks, analyzeRequest.options);
 
       const response: AnalyzeResponse = {
         success: true,
@@ -159,94 +775,346 @@ export class VibeChainAPI {
       res.json(response);
 
     } catch (error) {
-      const processingTime = Date.now() - req.startTime;
-      
-      if (error instanceof ValidationError || error instanceof ModelError) {
-        throw error; // Let error handler deal with it
+      next(error);
+    }
+  }
+
+  private async handleAnalyzeBatch(req: any, res: express.Response, next: express.NextFunction): Promise<void> {
+    try {
+      const batch = validateAnalyzeBatchRequest(req.body);
+
+      // Validate every session on its own so one bad session doesn't fail the batch
+      const results: BatchAnalysisItem[] = new Array(batch.sessions.length);
+      const jobs: AnalysisJob[] = [];
+      const jobSlots: number[] = [];
+
+      batch.sessions.forEach((session, index) => {
+        try {
+          const analyzeRequest = validateAnalyzeRequest({
+            tracks: session.tracks,
+            options: { ...batch.options, ...session.options }
+          });
+          jobs.push({ tracks: toAnalysisTracks(analyzeRequest), options: analyzeRequest.options });
+          jobSlots.push(index);
+        } catch (error) {
+          results[index] = toBatchFailure(session.session_id, error);
+        }
+      });
+
+      const outcomes = await this.analyzer.analyzeMany(jobs);
+      outcomes.forEach((outcome, i) => {
+        const index = jobSlots[i];
+        const sessionId = batch.sessions[index].session_id;
+        results[index] = outcome instanceof Error
+          ? toBatchFailure(sessionId, outcome)
+          : { session_id: sessionId, success: true, data: outcome };
+      });
+
+      const failed = results.filter(result => !result.success).length;
+      res.json({
+        success: true,
+        data: {
+          results,
+          summary: {
+            total: results.length,
+            succeeded: results.length - failed,
+            failed
+          }
+        },
+        processing_time_ms: Date.now() - req.startTime
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async handleCreateSession(req: any, res: express.Response, next: express.NextFunction): Promise<void> {
+    try {
+      const request = validateCreateSessionRequest(req.body);
+      const tracks = (request.tracks || []).map(toTrackFeatures);
+      const now = new Date();
+
+      const session = await this.sessions.save({
+        session_id: randomUUID(),
+        tracks: tracks.slice(-this.config.sessions.maxTracks),
+        total_plays: tracks.length,
+        options: request.options || {},
+        created_at: now,
+        updated_at: now,
+        expires_at: now
+      });
+
+      res.status(201).json({
+        success: true,
+        data: toSessionSummary(session),
+        processing_time_ms: Date.now() - req.startTime
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async handleAppendTracks(req: any, res: express.Response, next: express.NextFunction): Promise<void> {
+    try {
+      const request = validateAppendTracksRequest(req.body);
+      const tracks = request.tracks.map(toTrackFeatures);
+
+      // Keep a rolling window of the most recent plays
+      const saved = await this.sessions.append(req.params.id, tracks, this.config.sessions.maxTracks);
+      if (!saved) {
+        throw new SessionNotFoundError(req.params.id);
       }
-      
-      logger.error('Analysis error:', error);
-      res.status(500).json({
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        processing_time_ms: processingTime
+
+      res.json({
+        success: true,
+        data: toSessionSummary(saved),
+        processing_time_ms: Date.now() - req.startTime
       });
+    } catch (error) {
+      next(error);
     }
   }
 
-  private async performAnalysis(tracks: TrackFeatures[], options?: any): Promise<any> {
-    if (!this.model) {
-      throw new ModelError('No model loaded');
+  private async handleSessionPrediction(req: any, res: express.Response, next: express.NextFunction): Promise<void> {
+    try {
+      const session = await this.getSession(req.params.id);
+      if (session.tracks.length === 0) {
+        throw new ValidationError('Session has no tracks yet');
+      }
+
+      const result = await this.analyzer.analyze(session.tracks, session.options);
+
+      res.json({
+        success: true,
+        data: {
+          session: toSessionSummary(session),
+          ...result
+        },
+        processing_time_ms: Date.now() - req.startTime
+      });
+    } catch (error) {
+      next(error);
     }
+  }
+
+  private async handleDeleteSession(req: any, res: express.Response, next: express.NextFunction): Promise<void> {
+    try {
+      if (!(await this.sessions.delete(req.params.id))) {
+        throw new SessionNotFoundError(req.params.id);
+      }
 
-    if (tracks.length === 0) {
-      throw new ValidationError('No tracks provided for analysis');
+      res.json({
+        success: true,
+        data: { session_id: req.params.id, deleted: true },
+        processing_time_ms: Date.now() - req.startTime
+      });
+    } catch (error) {
+      next(error);
     }
+  }
 
-    // Convert tracks to feature vectors
-    const featureVectors = tracks.map(track => 
-      this.dataProcessor.trackFeaturesToVector(track)
-    );
+  private async getSession(sessionId: string): Promise<StoredSession> {
+    const session = await this.sessions.get(sessionId);
+    if (!session) {
+      throw new SessionNotFoundError(sessionId);
+    }
+    return session;
+  }
 
-    // Create input tensor
-    const inputTensor = tf.tensor2d(featureVectors);
-    let predictionTensor: tf.Tensor | null = null;
+  private async handleGeneratePlaylist(req: any, res: express.Response, next: express.NextFunction): Promise<void> {
+    try {
+      const request = validateGeneratePlaylistRequest(req.body);
+      const options = request.options || {};
+      const playlist = await this.playlists.generate(
+        request.seed_tracks.map(toTrackFeatures),
+        toPoolTracks(request.candidates),
+        request.length,
+        toPlaylistOptions(options)
+      );
 
+      res.json({
+        success: true,
+        data: playlist,
+        processing_time_ms: Date.now() - req.startTime
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async handlePlanTrajectory(req: any, res: express.Response, next: express.NextFunction): Promise<void> {
     try {
-      // Get model predictions
-      predictionTensor = await this.model.predict(inputTensor) as tf.Tensor;
-      
-      // Convert tensor to values
-      const predictionValues = await predictionTensor.data();
-      
-      // Our model outputs [valence, energy, danceability] for each track
-      const predictions: ModelPredictions = {
-        mood_prediction: {
-          valence: predictionValues[0],
-          energy: predictionValues[1],
-          arousal: predictionValues[2]
+      const request = validatePlanTrajectoryRequest(req.body);
+      const options = request.options || {};
+      const breakpoints = request.curve.preset
+        ? TRAJECTORY_PRESETS[request.curve.preset]
+        : request.curve.breakpoints || [];
+      const curve = interpolateTrajectory(breakpoints, request.slots);
+
+      const playlist = await this.playlists.generate(
+        (request.seed_tracks || []).map(toTrackFeatures),
+        toPoolTracks(request.candidates),
+        request.slots,
+        {
+          ...toPlaylistOptions(options),
+          curve,
+          smoothnessWeight: options.smoothness_weight ?? 0.5
+        }
+      );
+
+      res.json({
+        success: true,
+        data: {
+          ...playlist,
+          curve: {
+            preset: request.curve.preset || null,
+            targets: curve
+          }
         },
-        pattern_embedding: Array.from(predictionValues).slice(0, 10), // Take first 10 values as embedding
-        next_track_prediction: {
-          valence: predictionValues[0],
-          energy: predictionValues[1],
-          danceability: predictionValues[2]
+        processing_time_ms: Date.now() - req.startTime
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async handleScoreTransitions(req: any, res: express.Response, next: express.NextFunction): Promise<void> {
+    try {
+      const request = validateScoreTransitionsRequest(req.body);
+      const weights = { ...DEFAULT_TRANSITION_WEIGHTS, ...request.weights };
+      const transitions = scoreTransitions(request.tracks.map(toTrackFeatures), weights);
+      const scores = transitions.map(transition => transition.score);
+
+      res.json({
+        success: true,
+        data: {
+          transitions,
+          summary: {
+            average_score: scores.reduce((sum, score) => sum + score, 0) / scores.length,
+            min_score: Math.min(...scores),
+            weakest_transition: scores.indexOf(Math.min(...scores))
+          },
+          weights
         },
-        confidence_scores: {
-          mood: 0.85,
-          next_track: 0.80
-        }
-      };
+        processing_time_ms: Date.now() - req.startTime
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
 
-      return {
-        predictions,
-        metadata: {
-          tracks_analyzed: tracks.length,
-          analysis_timestamp: new Date(),
-          model_version: '1.0.0'
-        }
-      };
+  private async handleRecommend(req: any, res: express.Response, next: express.NextFunction): Promise<void> {
+    try {
+      const request = validateRecommendRequest(req.body);
+      const catalog = this.catalog;
+      if (!catalog || catalog.size() === 0) {
+        throw new CatalogError('Track catalog is not loaded');
+      }
 
-    } finally {
-      inputTensor.dispose();
-      predictionTensor?.dispose();
+      // Either match the given features or predict them from the session
+      let target: Partial<Record<CatalogFeature, number>> = request.features || {};
+      let modelVersion: string | undefined;
+      if (request.tracks) {
+        const result = await this.analyzer.analyze(request.tracks.map(toTrackFeatures), {
+          include_insights: false,
+          model_version: request.model_version
+        });
+        const { valence, energy, danceability } = result.predictions.next_track_prediction;
+        target = { valence, energy, danceability };
+        modelVersion = result.metadata.model_version;
+      }
+
+      res.json({
+        success: true,
+        data: {
+          recommendations: catalog.nearest(target, request.k, request.filters),
+          target,
+          model_version: modelVersion,
+          catalog_size: catalog.size()
+        },
+        processing_time_ms: Date.now() - req.startTime
+      });
+    } catch (error) {
+      next(error);
     }
   }
 
-  public async loadModel(modelPath?: string): Promise<void> {
+  private async handleEmbed(req: any, res: express.Response, next: express.NextFunction): Promise<void> {
     try {
-      const path = modelPath || join(process.cwd(), 'models', 'best_model');
-      
-      this.model = new SimpleSpotifyModel(20); // 20 input features
-      await this.model.loadModel(path);
-      
-      logger.info(`Model loaded successfully from ${path}`);
+      const embedRequest = validateEmbedRequest(req.body);
+      const vectors = embedRequest.sessions.map(session =>
+        session.tracks.map(track => featuresToVector(toTrackFeatures(track)))
+      );
+
+      const entry = this.registry.acquire(embedRequest.model_version);
+      try {
+        const extractor = this.requireEmbeddings(entry);
+        const embeddings: SessionEmbedding[] = extractor.embedSessions(vectors).map((embedding, i) => ({
+          session_id: embedRequest.sessions[i].session_id,
+          embedding
+        }));
+
+        res.json({
+          success: true,
+          data: {
+            embeddings,
+            dimension: extractor.getDimension(),
+            model_version: entry.version
+          },
+          processing_time_ms: Date.now() - req.startTime
+        });
+      } finally {
+        this.registry.release(entry);
+      }
     } catch (error) {
-      logger.warn('Failed to load model on startup:', error);
+      next(error);
+    }
+  }
+
+  private requireEmbeddings(entry: LoadedModel): EmbeddingExtractor {
+    if (!entry.embeddings) {
+      throw new ModelError(`Embeddings are unavailable for model ${entry.version}`);
+    }
+    return entry.embeddings;
+  }
+
+  /**
+   * Load every model version found in the models directory
+   */
+  public async loadModels(): Promise<string[]> {
+    const versions = await this.registry.loadAll();
+    if (versions.length > 0) {
+      logger.info(`Loaded model versions: ${versions.join(', ')} (default ${this.registry.getDefaultVersion()})`);
+    }
+    return versions;
+  }
+
+  /**
+   * Index the configured track catalog for /recommend
+   */
+  public async loadCatalog(): Promise<number> {
+    const { source, path, maxTracks } = this.config.catalog;
+    if (this.catalog || source === 'none') {
+      return this.catalog?.size() ?? 0;
+    }
+
+    try {
+      this.catalog = source === 'json'
+        ? TrackCatalog.fromJSON(path, maxTracks)
+        : TrackCatalog.fromCSV(maxTracks);
+      logger.info(`Track catalog loaded from ${this.catalog.getSource()}: ${this.catalog.size()} tracks`);
+      return this.catalog.size();
+    } catch (error) {
+      logger.warn('Failed to load track catalog; /recommend is unavailable:', error);
+      return 0;
     }
   }
 
   public async start(): Promise<void> {
+    if (this.config.registry.watch) {
+      this.registry.watch();
+    }
+
     return new Promise((resolve) => {
       const server = this.app.listen(this.config.api.port, this.config.api.host, () => {
         logger.info(`VibeChain API server started on ${this.config.api.host}:${this.config.api.port}`);
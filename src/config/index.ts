@@ -1,11 +1,28 @@
-import { AppConfig } from '@/types';
-import { parseBoolean, parseNumber } from '@/utils/helpers';
+import { AppConfig, AuthConfig, CatalogConfig } from '@/types';
+import { parseBoolean, parseNumber, parseNumberMap } from '@/utils/helpers';
 import { validateConfig } from '@/utils/validation';
 import dotenv from 'dotenv';
+import { join } from 'path';
 
 // Load environment variables
 dotenv.config();
 
+// Token cost of each route; model inference and uploads cost the most
+const DEFAULT_ROUTE_COSTS: Record<string, number> = {
+  'POST /analyze': 5,
+  'POST /analyze/batch': 20,
+  'GET /me/analysis': 10,
+  'POST /imports/spotify-history': 20,
+  'POST /imports/lastfm': 20,
+  'POST /imports/listenbrainz': 20,
+  'GET /sessions/:id/prediction': 5,
+  'POST /playlists/generate': 10,
+  'POST /playlists/trajectory': 10,
+  'POST /recommend': 2,
+  'POST /embed': 5,
+  'POST /model/reload': 10
+};
+
 /**
  * Application configuration
  */
@@ -20,6 +37,13 @@ const config: AppConfig = {
     maxSequenceLength: parseNumber(process.env.MODEL_MAX_SEQUENCE_LENGTH, 100)
   },
 
+  registry: {
+    directory: process.env.MODELS_DIR || join(process.cwd(), 'models'),
+    defaultVersion: process.env.MODEL_DEFAULT_VERSION || '1.0.0',
+    watch: parseBoolean(process.env.MODELS_WATCH, false),
+    watchDebounceMs: parseNumber(process.env.MODELS_WATCH_DEBOUNCE_MS, 2000)
+  },
+
   training: {
     batchSize: parseNumber(process.env.TRAINING_BATCH_SIZE, 32),
     numEpochs: parseNumber(process.env.TRAINING_NUM_EPOCHS, 100),
@@ -35,10 +59,58 @@ const config: AppConfig = {
     minTracksPerSession: parseNumber(process.env.DATA_MIN_TRACKS_PER_SESSION, 10)
   },
 
+  analysis: {
+    recencyHalfLife: parseNumber(process.env.ANALYSIS_RECENCY_HALF_LIFE, 5),
+    confidencePasses: parseNumber(process.env.ANALYSIS_CONFIDENCE_PASSES, 20)
+  },
+
+  scheduler: {
+    windowMs: parseNumber(process.env.INFERENCE_BATCH_WINDOW_MS, 5),
+    maxBatchRows: parseNumber(process.env.INFERENCE_MAX_BATCH_ROWS, 4096)
+  },
+
+  sessions: {
+    ttlMs: parseNumber(process.env.SESSION_TTL_MS, 30 * 60 * 1000),
+    maxTracks: parseNumber(process.env.SESSION_MAX_TRACKS, 100)
+  },
+
+  catalog: {
+    source: (process.env.CATALOG_SOURCE as CatalogConfig['source']) || 'csv',
+    path: process.env.CATALOG_PATH || join(process.cwd(), 'data', 'catalog.json'),
+    maxTracks: parseNumber(process.env.CATALOG_MAX_TRACKS, 200000)
+  },
+
+  imports: {
+    maxBytes: parseNumber(process.env.IMPORT_MAX_BYTES, 200 * 1024 * 1024),
+    minMatchScore: parseNumber(process.env.IMPORT_MIN_MATCH_SCORE, 0.85)
+  },
+
   spotify: {
     clientId: process.env.SPOTIFY_CLIENT_ID || '',
     clientSecret: process.env.SPOTIFY_CLIENT_SECRET || '',
-    redirectUri: process.env.SPOTIFY_REDIRECT_URI || 'http://localhost:8080/callback'
+    redirectUri: process.env.SPOTIFY_REDIRECT_URI || 'http://localhost:8080/auth/callback',
+    accountsBaseUrl: process.env.SPOTIFY_ACCOUNTS_URL || 'https://accounts.spotify.com',
+    apiBaseUrl: process.env.SPOTIFY_API_URL || 'https://api.spotify.com/v1',
+    scopes: (process.env.SPOTIFY_SCOPES || 'user-read-recently-played user-top-read playlist-read-private')
+      .split(/[\s,]+/)
+      .filter(Boolean)
+  },
+
+  auth: {
+    required: parseBoolean(process.env.API_KEYS_REQUIRED, false),
+    store: (process.env.API_KEY_STORE as AuthConfig['store']) || 'file',
+    storePath: process.env.API_KEY_STORE_PATH || join(process.cwd(), 'data', 'api_keys.json'),
+    hourlyQuota: parseNumber(process.env.API_KEY_HOURLY_QUOTA, 10000),
+    dailyQuota: parseNumber(process.env.API_KEY_DAILY_QUOTA, 100000)
+  },
+
+  rateLimit: {
+    enabled: parseBoolean(process.env.RATE_LIMIT_ENABLED, true),
+    limit: parseNumber(process.env.RATE_LIMIT_LIMIT, 1000),
+    windowMs: parseNumber(process.env.RATE_LIMIT_WINDOW_MS, 60 * 1000),
+    defaultCost: parseNumber(process.env.RATE_LIMIT_DEFAULT_COST, 1),
+    routeCosts: { ...DEFAULT_ROUTE_COSTS, ...parseNumberMap(process.env.RATE_LIMIT_ROUTE_COSTS) },
+    trustProxy: parseBoolean(process.env.TRUST_PROXY, false)
   },
 
   api: {
@@ -46,7 +118,8 @@ const config: AppConfig = {
     host: process.env.HOST || process.env.API_HOST || '0.0.0.0',
     corsOrigins: process.env.CORS_ORIGINS 
       ? process.env.CORS_ORIGINS.split(',').map(origin => origin.trim())
-      : ['http://localhost:3000', 'http://localhost:8080']
+      : ['http://localhost:3000', 'http://localhost:8080'],
+    adminKey: process.env.ADMIN_API_KEY || ''
   }
 };
 
@@ -63,8 +136,16 @@ export default config;
 // Export individual config sections for convenience
 export const {
   model: modelConfig,
+  registry: registryConfig,
   training: trainingConfig,
   data: dataConfig,
+  analysis: analysisConfig,
+  scheduler: schedulerConfig,
+  sessions: sessionsConfig,
+  catalog: catalogConfig,
+  imports: importsConfig,
   spotify: spotifyConfig,
+  auth: authConfig,
+  rateLimit: rateLimitConfig,
   api: apiConfig
 } = config;
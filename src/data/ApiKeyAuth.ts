@@ -0,0 +1,169 @@
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { ApiKeyStore } from '@/data/ApiKeyStore';
+import {
+  ApiKeyRecord,
+  ApiKeyScope,
+  ApiKeyUsage,
+  AuthConfig,
+  AuthenticationError,
+  CreateApiKeyRequest,
+  QuotaExceededError,
+  QuotaWindowUsage
+} from '@/types';
+
+// Marks VibeChain keys so leaked ones are easy to recognize
+const KEY_PREFIX = 'vc_';
+
+// Characters of the key kept in the record for listings
+const DISPLAYED_KEY_LENGTH = 8;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['analyze', 'admin', 'training'];
+
+const hashKey = (key: string): string => createHash('sha256').update(key).digest('hex');
+
+/**
+ * End of the current UTC hour or day
+ */
+const windowEnd = (now: number, length: number): Date => new Date(Math.floor(now / length) * length + length);
+
+const windowUsage = (used: number, limit: number, resetsAt: Date): QuotaWindowUsage => ({
+  used,
+  limit: limit > 0 ? limit : null,
+  remaining: limit > 0 ? Math.max(limit - used, 0) : null,
+  resets_at: resetsAt
+});
+
+/**
+ * API keys with scopes and fixed-window quotas.
+ * Keys are random and high-entropy, so a plain SHA-256 is enough to store
+ * them safely. Quotas count accepted requests per UTC hour and UTC day.
+ *
+ * ADMIN_API_KEY, when set, works as a bootstrap key with every scope and no
+ * quota, so the first real keys can be created over the API.
+ */
+export class ApiKeyAuth {
+  private store: ApiKeyStore;
+  private config: AuthConfig;
+  private bootstrap: ApiKeyRecord | null;
+
+  constructor(store: ApiKeyStore, config: AuthConfig, bootstrapKey = '') {
+    this.store = store;
+    this.config = config;
+    this.bootstrap = bootstrapKey
+      ? {
+          id: 'bootstrap',
+          name: 'ADMIN_API_KEY',
+          key_hash: hashKey(bootstrapKey),
+          key_prefix: bootstrapKey.slice(0, DISPLAYED_KEY_LENGTH),
+          scopes: [...API_KEY_SCOPES],
+          hourly_quota: 0,
+          daily_quota: 0,
+          created_at: new Date()
+        }
+      : null;
+  }
+
+  /**
+   * Issue a key; the plain key is only available from this call
+   */
+  async create(request: CreateApiKeyRequest): Promise<{ key: string; record: ApiKeyRecord }> {
+    const key = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+    const record: ApiKeyRecord = {
+      id: randomUUID(),
+      name: request.name,
+      key_hash: hashKey(key),
+      key_prefix: key.slice(0, DISPLAYED_KEY_LENGTH),
+      scopes: request.scopes,
+      hourly_quota: request.hourly_quota,
+      daily_quota: request.daily_quota,
+      created_at: new Date()
+    };
+
+    await this.store.save(record);
+    return { key, record };
+  }
+
+  /**
+   * Resolve a presented key to its record
+   */
+  async authenticate(presented: string): Promise<ApiKeyRecord> {
+    const presentedHash = hashKey(presented);
+
+    if (this.bootstrap && timingSafeEqual(Buffer.from(presentedHash), Buffer.from(this.bootstrap.key_hash))) {
+      return this.bootstrap;
+    }
+
+    const record = await this.store.findByHash(presentedHash);
+    if (!record) {
+      throw new AuthenticationError('Invalid API key');
+    }
+    return record;
+  }
+
+  /**
+   * Count one request against the key's quotas, rejecting it if either
+   * window is used up. Rejected requests are not counted.
+   */
+  async consume(record: ApiKeyRecord): Promise<ApiKeyUsage> {
+    const now = Date.now();
+    const { hourlyLimit, dailyLimit } = this.limits(record);
+    const hourEnd = windowEnd(now, HOUR_MS);
+    const dayEnd = windowEnd(now, DAY_MS);
+
+    const hour = await this.store.increment(`${record.id}:hour`, 1, hourEnd);
+    const day = await this.store.increment(`${record.id}:day`, 1, dayEnd);
+
+    const exceeded = hourlyLimit > 0 && hour > hourlyLimit ? new QuotaExceededError('hour', hourlyLimit, hourEnd)
+      : dailyLimit > 0 && day > dailyLimit ? new QuotaExceededError('day', dailyLimit, dayEnd)
+        : null;
+    if (exceeded) {
+      await this.store.increment(`${record.id}:hour`, -1, hourEnd);
+      await this.store.increment(`${record.id}:day`, -1, dayEnd);
+      throw exceeded;
+    }
+
+    return {
+      key_id: record.id,
+      hour: windowUsage(hour, hourlyLimit, hourEnd),
+      day: windowUsage(day, dailyLimit, dayEnd)
+    };
+  }
+
+  /**
+   * Current usage of a key, without counting a request
+   */
+  async usage(record: ApiKeyRecord): Promise<ApiKeyUsage> {
+    const now = Date.now();
+    const { hourlyLimit, dailyLimit } = this.limits(record);
+    const hourEnd = windowEnd(now, HOUR_MS);
+    const dayEnd = windowEnd(now, DAY_MS);
+
+    return {
+      key_id: record.id,
+      hour: windowUsage(await this.store.increment(`${record.id}:hour`, 0, hourEnd), hourlyLimit, hourEnd),
+      day: windowUsage(await this.store.increment(`${record.id}:day`, 0, dayEnd), dailyLimit, dayEnd)
+    };
+  }
+
+  async get(id: string): Promise<ApiKeyRecord | null> {
+    return id === this.bootstrap?.id ? this.bootstrap : this.store.get(id);
+  }
+
+  async list(): Promise<ApiKeyRecord[]> {
+    return this.store.list();
+  }
+
+  async revoke(id: string): Promise<boolean> {
+    return this.store.delete(id);
+  }
+
+  private limits(record: ApiKeyRecord): { hourlyLimit: number; dailyLimit: number } {
+    return {
+      hourlyLimit: record.hourly_quota ?? this.config.hourlyQuota,
+      dailyLimit: record.daily_quota ?? this.config.dailyQuota
+    };
+  }
+}
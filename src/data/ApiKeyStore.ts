@@ -0,0 +1,107 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { ApiKeyRecord } from '@/types';
+
+/**
+ * Storage backend for API keys and their usage counters.
+ * Keys are stored by hash only; the plain key is never persisted.
+ */
+export interface ApiKeyStore {
+  findByHash(keyHash: string): Promise<ApiKeyRecord | null>;
+  get(id: string): Promise<ApiKeyRecord | null>;
+  list(): Promise<ApiKeyRecord[]>;
+  save(record: ApiKeyRecord): Promise<void>;
+  delete(id: string): Promise<boolean>;
+  // Add `amount` to a usage counter and return its new total. A counter whose
+  // reset time has passed starts over from zero with `resetAt`.
+  increment(counter: string, amount: number, resetAt: Date): Promise<number>;
+}
+
+interface UsageCounter {
+  value: number;
+  resetAt: number;
+}
+
+/**
+ * Process-local key store; keys and usage are lost on restart
+ */
+export class InMemoryApiKeyStore implements ApiKeyStore {
+  protected keys: Map<string, ApiKeyRecord> = new Map();
+  private counters: Map<string, UsageCounter> = new Map();
+
+  async findByHash(keyHash: string): Promise<ApiKeyRecord | null> {
+    return Array.from(this.keys.values()).find(record => record.key_hash === keyHash) || null;
+  }
+
+  async get(id: string): Promise<ApiKeyRecord | null> {
+    return this.keys.get(id) || null;
+  }
+
+  async list(): Promise<ApiKeyRecord[]> {
+    return Array.from(this.keys.values());
+  }
+
+  async save(record: ApiKeyRecord): Promise<void> {
+    this.keys.set(record.id, record);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    Array.from(this.counters.keys())
+      .filter(counter => counter.startsWith(`${id}:`))
+      .forEach(counter => this.counters.delete(counter));
+    return this.keys.delete(id);
+  }
+
+  async increment(counter: string, amount: number, resetAt: Date): Promise<number> {
+    const now = Date.now();
+    const current = this.counters.get(counter);
+    const entry = current && current.resetAt > now ? current : { value: 0, resetAt: resetAt.getTime() };
+
+    entry.value = Math.max(entry.value + amount, 0);
+    this.counters.set(counter, entry);
+    return entry.value;
+  }
+}
+
+/**
+ * Keys persisted to a JSON file, so they survive restarts. Usage counters
+ * stay in memory.
+ */
+export class FileApiKeyStore extends InMemoryApiKeyStore {
+  private path: string;
+
+  constructor(path: string) {
+    super();
+    this.path = path;
+
+    if (existsSync(path)) {
+      const stored = JSON.parse(readFileSync(path, 'utf-8')) as { keys?: ApiKeyRecord[] };
+      (stored.keys || []).forEach(record => {
+        this.keys.set(record.id, { ...record, created_at: new Date(record.created_at) });
+      });
+    }
+  }
+
+  async save(record: ApiKeyRecord): Promise<void> {
+    await super.save(record);
+    this.persist();
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const deleted = await super.delete(id);
+    if (deleted) {
+      this.persist();
+    }
+    return deleted;
+  }
+
+  /**
+   * Write through a temporary file so a crash never leaves a truncated key file
+   */
+  private persist(): void {
+    mkdirSync(dirname(this.path), { recursive: true });
+    const temporary = `${this.path}.tmp`;
+    writeFileSync(temporary, JSON.stringify({ keys: Array.from(this.keys.values()) }, null, 2), { mode: 0o600 });
+    renameSync(temporary, this.path);
+  }
+}
@@ -0,0 +1,30 @@
+import { SpotifyCredentials } from '@/types';
+
+/**
+ * Storage backend for connected Spotify accounts.
+ * Credentials are keyed by the user_id handed out at the end of the OAuth flow.
+ */
+export interface CredentialStore {
+  get(userId: string): Promise<SpotifyCredentials | null>;
+  save(credentials: SpotifyCredentials): Promise<void>;
+  delete(userId: string): Promise<boolean>;
+}
+
+/**
+ * Process-local credential store; connections are lost on restart
+ */
+export class InMemoryCredentialStore implements CredentialStore {
+  private credentials: Map<string, SpotifyCredentials> = new Map();
+
+  async get(userId: string): Promise<SpotifyCredentials | null> {
+    return this.credentials.get(userId) || null;
+  }
+
+  async save(credentials: SpotifyCredentials): Promise<void> {
+    this.credentials.set(credentials.user_id, credentials);
+  }
+
+  async delete(userId: string): Promise<boolean> {
+    return this.credentials.delete(userId);
+  }
+}
@@ -0,0 +1,229 @@
+import { TrackCatalog } from '@/data/TrackCatalog';
+import {
+  CatalogMatch,
+  CatalogTrack,
+  HistoryImport,
+  HistoryImportReport,
+  HistorySource,
+  ListeningSession,
+  PlayBehavior,
+  Track,
+  UnmatchedHistoryTrack
+} from '@/types';
+import { deriveBehavioralFeatures } from '@/utils/behavior';
+import { historyTrackFeatures, splitIntoSessions } from '@/utils/history';
+
+// Unmatched tracks listed in the report
+const UNMATCHED_REPORT_LIMIT = 50;
+
+const DEFAULT_MIN_MATCH_SCORE = 0.85;
+
+export interface HistoryImportOptions {
+  gapMs: number;
+  utcOffsetMinutes: number;
+  maxBytes?: number;
+  // Lowest artist/title similarity accepted when a play has no catalog ID match
+  minMatchScore?: number;
+}
+
+/**
+ * A play as read from an export, before it is matched to the catalog
+ */
+export interface HistoryPlay {
+  // Spotify track ID, when the source records one
+  id?: string;
+  name: string;
+  artist: string;
+  album: string;
+  startedAt: number;
+  // Time listened, when the source records it
+  msPlayed?: number;
+  // Track length, when the source records it
+  durationMs?: number;
+  // Whether the listener skipped the track, when the source records it
+  skipped?: boolean;
+}
+
+interface Resolution {
+  track?: CatalogTrack;
+  matchedBy?: 'id' | 'name';
+  closest?: CatalogMatch;
+}
+
+interface PlayContext {
+  key: string;
+  matchedBy?: 'id' | 'name';
+  behavior: PlayBehavior;
+}
+
+/**
+ * Shared pipeline for listening history exports.
+ *
+ * Subclasses parse one export format into plays; build() matches them to the
+ * feature catalog (by Spotify ID, then fuzzy artist/title), cuts them into
+ * sessions and reports what could not be matched. Behavioral features are
+ * derived from the play log itself.
+ */
+export abstract class HistoryImporter {
+  protected abstract readonly source: HistorySource;
+  protected catalog: TrackCatalog;
+  protected options: HistoryImportOptions;
+  private plays: HistoryPlay[] = [];
+  private records = 0;
+  private skippedRecords = 0;
+
+  constructor(catalog: TrackCatalog, options: HistoryImportOptions) {
+    this.catalog = catalog;
+    this.options = options;
+  }
+
+  /**
+   * Read one export file; returns the number of records read
+   */
+  abstract ingest(chunks: AsyncIterable<Buffer | string>): Promise<number>;
+
+  /**
+   * Feed parsed records through `toPlay`; records it returns null for are
+   * counted as skipped
+   */
+  protected async consume<T>(records: AsyncIterable<T>, toPlay: (record: T) => HistoryPlay | null): Promise<number> {
+    let count = 0;
+    for await (const record of records) {
+      count++;
+      const play = toPlay(record);
+      if (play && (play.id || (play.name && play.artist)) && Number.isFinite(play.startedAt)) {
+        this.plays.push(play);
+      } else {
+        this.skippedRecords++;
+      }
+    }
+    this.records += count;
+    return count;
+  }
+
+  /**
+   * Join ingested plays with the catalog and split them into sessions
+   */
+  build(): HistoryImport {
+    const plays = [...this.plays].sort((a, b) => a.startedAt - b.startedAt);
+    const resolutions = new Map<string, Resolution>();
+    const keys = plays.map(play => {
+      const key = play.id || `${play.artist}\u0000${play.name}`;
+      if (!resolutions.has(key)) {
+        resolutions.set(key, this.resolve(play));
+      }
+      return key;
+    });
+
+    // Spellings that resolve to the same catalog track share one play history
+    const behavior = deriveBehavioralFeatures(plays.map((play, i) => ({
+      track_id: resolutions.get(keys[i])!.track?.id || keys[i],
+      started_at: new Date(play.startedAt),
+      ms_played: play.msPlayed,
+      duration_ms: play.durationMs ?? resolutions.get(keys[i])!.track?.duration_ms,
+      skipped: play.skipped
+    })), { contextGapMs: this.options.gapMs });
+
+    const context = new Map<Track, PlayContext>();
+    const tracks = plays.map((play, i) => {
+      const resolution = resolutions.get(keys[i])!;
+      const catalogTrack = resolution.track;
+      const track: Track = {
+        id: catalogTrack?.id || play.id || keys[i],
+        name: play.name,
+        artist: play.artist,
+        album: play.album,
+        played_at: new Date(play.startedAt),
+        // Time actually listened where known, so session gaps reflect real pauses
+        duration_ms: play.msPlayed ?? play.durationMs ?? catalogTrack?.duration_ms ?? 0,
+        popularity: catalogTrack?.popularity ?? 0,
+        features: catalogTrack?.features
+      };
+
+      context.set(track, { key: keys[i], matchedBy: resolution.matchedBy, behavior: behavior[i] });
+      return track;
+    });
+
+    // Split on every play so unmatched tracks still count as listening time
+    const unmatched = new Map<string, UnmatchedHistoryTrack>();
+    const sessions: ListeningSession[] = [];
+    let matchedById = 0;
+    let invalidFeatures = 0;
+
+    splitIntoSessions(tracks, this.options.gapMs).forEach(session => {
+      const matched: Track[] = [];
+
+      session.tracks.forEach(track => {
+        const { key, matchedBy, behavior: { skip_rate, repeat_count, playlist_position } } = context.get(track)!;
+        const features = historyTrackFeatures(track, this.options.utcOffsetMinutes, {
+          skip_rate,
+          repeat_count,
+          playlist_position
+        });
+
+        if (features) {
+          matched.push({ ...track, features });
+          matchedById += matchedBy === 'id' ? 1 : 0;
+          return;
+        }
+        // In the catalog, but its features are incomplete or not finite
+        if (matchedBy) {
+          invalidFeatures++;
+          return;
+        }
+
+        const closest = resolutions.get(key)!.closest;
+        const entry = unmatched.get(key) || {
+          id: key.includes('\u0000') ? undefined : key,
+          name: track.name,
+          artist: track.artist,
+          plays: 0,
+          closest: closest && {
+            id: closest.track.id,
+            name: closest.track.name,
+            artist: closest.track.artist,
+            score: closest.score
+          }
+        };
+        entry.plays++;
+        unmatched.set(key, entry);
+      });
+
+      if (matched.length > 0) {
+        sessions.push({ ...session, tracks: matched });
+      }
+    });
+
+    const matchedTracks = ([] as Track[]).concat(...sessions.map(session => session.tracks));
+    const report: HistoryImportReport = {
+      source: this.source,
+      records: this.records,
+      track_plays: plays.length,
+      matched: matchedTracks.length,
+      matched_by_id: matchedById,
+      matched_by_name: matchedTracks.length - matchedById,
+      unmatched: plays.length - matchedTracks.length - invalidFeatures,
+      invalid_features: invalidFeatures,
+      skipped_records: this.skippedRecords,
+      sessions: sessions.length,
+      unmatched_tracks: Array.from(unmatched.values())
+        .sort((a, b) => b.plays - a.plays)
+        .slice(0, UNMATCHED_REPORT_LIMIT)
+    };
+
+    return { tracks: matchedTracks, sessions, report };
+  }
+
+  private resolve(play: HistoryPlay): Resolution {
+    const byId = play.id ? this.catalog.getById(play.id) : undefined;
+    if (byId) {
+      return { track: byId, matchedBy: 'id' };
+    }
+
+    const match = this.catalog.matchByName(play.artist, play.name);
+    if (match && match.score >= (this.options.minMatchScore ?? DEFAULT_MIN_MATCH_SCORE)) {
+      return { track: match.track, matchedBy: 'name' };
+    }
+    return { closest: match };
+  }
+}
@@ -0,0 +1,133 @@
+import { HistoryImporter, HistoryImportOptions, HistoryPlay } from '@/data/HistoryImporter';
+import { TrackCatalog } from '@/data/TrackCatalog';
+import { HistorySource, LastfmRecentTracksPage, LastfmScrobble } from '@/types';
+import { parseCsvStream } from '@/utils/csvStream';
+import { parseJsonRecordStream } from '@/utils/jsonStream';
+
+export interface LastfmImportOptions extends HistoryImportOptions {
+  format: 'csv' | 'json';
+}
+
+// Accepted CSV header names for each field, by preference
+const CSV_COLUMNS = {
+  artist: ['artist', 'artist_name'],
+  album: ['album', 'album_name'],
+  track: ['track', 'title', 'track_name', 'name'],
+  time: ['uts', 'timestamp', 'utc_time', 'date', 'time']
+};
+
+// Column order of headerless exports (lastfm-to-csv)
+const HEADERLESS_COLUMNS = { artist: 0, album: 1, track: 2, time: 3 };
+
+type CsvColumns = Record<keyof typeof CSV_COLUMNS, number>;
+
+/**
+ * Imports Last.fm scrobble dumps, as CSV or as saved user.getRecentTracks
+ * JSON pages. Scrobbles carry no Spotify ID, duration or skip signal, so
+ * tracks are matched by artist/title and take their duration from the catalog.
+ */
+export class LastfmHistoryImporter extends HistoryImporter {
+  protected readonly source: HistorySource = 'lastfm';
+  private format: 'csv' | 'json';
+
+  constructor(catalog: TrackCatalog, options: LastfmImportOptions) {
+    super(catalog, options);
+    this.format = options.format;
+  }
+
+  /**
+   * Read one dump; `format` overrides the configured one for mixed uploads
+   */
+  async ingest(chunks: AsyncIterable<Buffer | string>, format = this.format): Promise<number> {
+    if (format === 'json') {
+      return this.consume(scrobbles(parseJsonRecordStream(chunks, this.options.maxBytes)), scrobbleToPlay);
+    }
+
+    return this.consume(csvPlays(parseCsvStream(chunks, this.options.maxBytes)), play => play);
+  }
+}
+
+/**
+ * Unix seconds or milliseconds, or a date string; Last.fm dates without a
+ * zone are UTC
+ */
+const parseScrobbleTime = (value: string | number | undefined): number => {
+  if (value === undefined || value === '') {
+    return NaN;
+  }
+  const numeric = Number(value);
+  if (Number.isFinite(numeric)) {
+    return numeric > 1e12 ? numeric : numeric * 1000;
+  }
+  const utc = Date.parse(`${value} UTC`);
+  return Number.isFinite(utc) ? utc : Date.parse(String(value));
+};
+
+async function* scrobbles(records: AsyncIterable<unknown>): AsyncGenerator<LastfmScrobble> {
+  for await (const record of records) {
+    const page = record as LastfmRecentTracksPage;
+    const items = page.recenttracks?.track ?? page.track;
+    if (Array.isArray(items)) {
+      yield* items;
+    } else {
+      yield record as LastfmScrobble;
+    }
+  }
+}
+
+const textOf = (value: string | { '#text'?: string; name?: string } | undefined): string =>
+  typeof value === 'string' ? value : value?.['#text'] || value?.name || '';
+
+const scrobbleToPlay = (scrobble: LastfmScrobble): HistoryPlay | null => {
+  // The track playing right now has no timestamp yet
+  if (scrobble['@attr']?.nowplaying === 'true') {
+    return null;
+  }
+  return {
+    name: scrobble.name || '',
+    artist: textOf(scrobble.artist),
+    album: textOf(scrobble.album),
+    startedAt: parseScrobbleTime(scrobble.date?.uts ?? scrobble.uts ?? scrobble.timestamp)
+  };
+};
+
+/**
+ * Column positions from a header row, or the headerless layout when the
+ * first row is already a scrobble
+ */
+const csvColumns = (firstRow: string[]): CsvColumns => {
+  const header = firstRow.map(cell => cell.trim().toLowerCase());
+  const find = (names: string[]): number =>
+    names.map(name => header.indexOf(name)).find(index => index >= 0) ?? -1;
+
+  const columns: CsvColumns = {
+    artist: find(CSV_COLUMNS.artist),
+    album: find(CSV_COLUMNS.album),
+    track: find(CSV_COLUMNS.track),
+    time: find(CSV_COLUMNS.time)
+  };
+  return columns.artist >= 0 && columns.track >= 0 && columns.time >= 0 ? columns : HEADERLESS_COLUMNS;
+};
+
+const rowToPlay = (row: string[], columns: CsvColumns): HistoryPlay => ({
+  name: row[columns.track] || '',
+  artist: row[columns.artist] || '',
+  album: columns.album >= 0 ? row[columns.album] || '' : '',
+  startedAt: parseScrobbleTime(row[columns.time])
+});
+
+/**
+ * Plays from CSV rows, reading the column layout from the header when there is one
+ */
+async function* csvPlays(rows: AsyncIterable<string[]>): AsyncGenerator<HistoryPlay> {
+  let columns: CsvColumns | null = null;
+  for await (const row of rows) {
+    if (!columns) {
+      columns = csvColumns(row);
+      if (columns !== HEADERLESS_COLUMNS) {
+        continue;
+      }
+    }
+    yield rowToPlay(row, columns);
+  }
+}
@@ -0,0 +1,40 @@
+import { HistoryImporter, HistoryPlay } from '@/data/HistoryImporter';
+import { HistorySource, ListenBrainzListen } from '@/types';
+import { parseJsonRecordStream } from '@/utils/jsonStream';
+
+const SPOTIFY_TRACK_URL = /open\.spotify\.com\/track\/([A-Za-z0-9]+)/;
+
+/**
+ * Imports ListenBrainz listen exports, either the JSON array of older exports
+ * or the JSON lines files (listens/<year>/<month>.jsonl) of current ones.
+ * Listens submitted by the Spotify integration keep their track ID; the rest
+ * are matched by artist/title.
+ */
+export class ListenBrainzHistoryImporter extends HistoryImporter {
+  protected readonly source: HistorySource = 'listenbrainz';
+
+  async ingest(chunks: AsyncIterable<Buffer | string>): Promise<number> {
+    return this.consume(
+      parseJsonRecordStream(chunks, this.options.maxBytes),
+      record => toPlay(record as ListenBrainzListen)
+    );
+  }
+}
+
+const toPlay = (listen: ListenBrainzListen): HistoryPlay | null => {
+  const metadata = listen.track_metadata;
+  if (!metadata || typeof listen.listened_at !== 'number') {
+    return null;
+  }
+
+  const info = metadata.additional_info || {};
+  const spotifyId = info.spotify_id?.match(SPOTIFY_TRACK_URL)?.[1];
+  return {
+    id: spotifyId,
+    name: metadata.track_name || '',
+    artist: metadata.artist_name || '',
+    album: metadata.release_name || '',
+    startedAt: listen.listened_at * 1000,
+    durationMs: info.duration_ms ?? (typeof info.duration === 'number' ? info.duration * 1000 : undefined)
+  };
+};
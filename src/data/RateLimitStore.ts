@@ -0,0 +1,78 @@
+/**
+ * Outcome of taking tokens from a bucket
+ */
+export interface BucketState {
+  allowed: boolean;
+  // Whole tokens left after this request
+  remaining: number;
+  // Until enough tokens for the request are available; 0 when allowed
+  retryAfterMs: number;
+  // Until the bucket is full again
+  resetMs: number;
+}
+
+/**
+ * Storage backend for rate-limit token buckets.
+ * take() must refill and debit a bucket as one atomic step, so a shared
+ * implementation (e.g. a Redis script) can serve several API instances.
+ */
+export interface RateLimitStore {
+  take(bucket: string, cost: number, capacity: number, refillPerMs: number): Promise<BucketState>;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  // When the bucket will be full if left alone
+  fullAt: number;
+}
+
+/**
+ * Process-local token buckets; each instance limits on its own
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private buckets: Map<string, Bucket> = new Map();
+  private sweeper: NodeJS.Timeout;
+
+  constructor(sweepIntervalMs = 60000) {
+    // Full buckets behave the same as missing ones, so idle clients are dropped
+    this.sweeper = setInterval(() => this.sweep(), sweepIntervalMs);
+    this.sweeper.unref();
+  }
+
+  async take(bucket: string, cost: number, capacity: number, refillPerMs: number): Promise<BucketState> {
+    const now = Date.now();
+    const current = this.buckets.get(bucket);
+    const tokens = current
+      ? Math.min(capacity, current.tokens + (now - current.updatedAt) * refillPerMs)
+      : capacity;
+
+    const allowed = tokens >= cost;
+    const left = allowed ? tokens - cost : tokens;
+    this.buckets.set(bucket, {
+      tokens: left,
+      updatedAt: now,
+      fullAt: now + (capacity - left) / refillPerMs
+    });
+
+    return {
+      allowed,
+      remaining: Math.floor(left),
+      retryAfterMs: allowed ? 0 : Math.ceil((cost - tokens) / refillPerMs),
+      resetMs: Math.ceil((capacity - left) / refillPerMs)
+    };
+  }
+
+  close(): void {
+    clearInterval(this.sweeper);
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    this.buckets.forEach((bucket, key) => {
+      if (bucket.fullAt <= now) {
+        this.buckets.delete(key);
+      }
+    });
+  }
+}
@@ -0,0 +1,81 @@
+import { RateLimitStore } from '@/data/RateLimitStore';
+import { RateLimitConfig } from '@/types';
+
+interface RouteCost {
+  method: string;
+  pattern: RegExp;
+  cost: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  cost: number;
+  retryAfterMs: number;
+  resetMs: number;
+  // RateLimit-Policy value, e.g. "1000;w=60"
+  policy: string;
+}
+
+/**
+ * Compile "METHOD /path/:param" keys into matchers
+ */
+const compileRouteCosts = (costs: Record<string, number>): RouteCost[] => {
+  return Object.keys(costs).map(route => {
+    const [method, path] = route.split(' ');
+    const source = path
+      .split('/')
+      .map(segment => (segment.startsWith(':') ? '[^/]+' : segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')))
+      .join('/');
+    return { method: method.toUpperCase(), pattern: new RegExp(`^${source}/?$`), cost: costs[route] };
+  });
+};
+
+/**
+ * Token-bucket rate limiting against bursts, separate from API key quotas.
+ *
+ * Each client (API key, or IP for anonymous callers) has a bucket holding up
+ * to `limit` tokens that refills at `limit` per window. A request takes its
+ * route's cost; costlier routes such as /analyze drain the bucket faster.
+ */
+export class RateLimiter {
+  private config: RateLimitConfig;
+  private store: RateLimitStore;
+  private routes: RouteCost[];
+
+  constructor(config: RateLimitConfig, store: RateLimitStore) {
+    this.config = config;
+    this.store = store;
+    this.routes = compileRouteCosts(config.routeCosts);
+  }
+
+  /**
+   * Tokens a request to `path` takes; costs above the limit are capped so
+   * every route stays reachable
+   */
+  costOf(method: string, path: string): number {
+    const route = this.routes.find(entry => entry.method === method.toUpperCase() && entry.pattern.test(path));
+    return Math.min(route ? route.cost : this.config.defaultCost, this.config.limit);
+  }
+
+  /**
+   * Charge a request to `client`'s bucket; null when it isn't rate limited
+   */
+  async consume(client: string, method: string, path: string): Promise<RateLimitResult | null> {
+    const cost = this.costOf(method, path);
+    if (!this.config.enabled || cost <= 0) {
+      return null;
+    }
+
+    const { limit, windowMs } = this.config;
+    const state = await this.store.take(client, cost, limit, limit / windowMs);
+
+    return {
+      ...state,
+      limit,
+      cost,
+      policy: `${limit};w=${Math.ceil(windowMs / 1000)}`
+    };
+  }
+}
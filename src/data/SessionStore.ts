@@ -0,0 +1,102 @@
+import { StoredSession, TrackFeatures } from '@/types';
+
+/**
+ * Storage backend for stateful listening sessions.
+ * Implementations own expiry: a session not saved within its TTL must stop
+ * being returned by get().
+ */
+export interface SessionStore {
+  get(sessionId: string): Promise<StoredSession | null>;
+  // Create or replace; resets the inactivity timer
+  save(session: StoredSession): Promise<StoredSession>;
+  // Add plays to a session as one atomic step, keeping the last `maxTracks`;
+  // resets the inactivity timer. Null when the session doesn't exist.
+  append(sessionId: string, tracks: TrackFeatures[], maxTracks: number): Promise<StoredSession | null>;
+  delete(sessionId: string): Promise<boolean>;
+  size(): Promise<number>;
+}
+
+/**
+ * Process-local session store with inactivity expiry
+ */
+export class InMemorySessionStore implements SessionStore {
+  private sessions: Map<string, StoredSession> = new Map();
+  private ttlMs: number;
+  private sweeper: NodeJS.Timeout;
+
+  constructor(ttlMs: number, sweepIntervalMs = 60000) {
+    this.ttlMs = ttlMs;
+
+    // Drop expired sessions periodically so abandoned ones don't pile up
+    this.sweeper = setInterval(() => this.sweep(), sweepIntervalMs);
+    this.sweeper.unref();
+  }
+
+  async get(sessionId: string): Promise<StoredSession | null> {
+    return this.current(sessionId);
+  }
+
+  async save(session: StoredSession): Promise<StoredSession> {
+    return this.store(session);
+  }
+
+  async append(sessionId: string, tracks: TrackFeatures[], maxTracks: number): Promise<StoredSession | null> {
+    // No await between reading and saving, so concurrent appends can't drop plays
+    const session = this.current(sessionId);
+    if (!session) {
+      return null;
+    }
+
+    return this.store({
+      ...session,
+      tracks: session.tracks.concat(tracks).slice(-maxTracks),
+      total_plays: session.total_plays + tracks.length
+    });
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    return this.sessions.delete(sessionId);
+  }
+
+  async size(): Promise<number> {
+    this.sweep();
+    return this.sessions.size;
+  }
+
+  close(): void {
+    clearInterval(this.sweeper);
+  }
+
+  private current(sessionId: string): StoredSession | null {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return null;
+    }
+
+    if (session.expires_at.getTime() <= Date.now()) {
+      this.sessions.delete(sessionId);
+      return null;
+    }
+    return session;
+  }
+
+  private store(session: StoredSession): StoredSession {
+    const now = new Date();
+    const saved: StoredSession = {
+      ...session,
+      updated_at: now,
+      expires_at: new Date(now.getTime() + this.ttlMs)
+    };
+    this.sessions.set(saved.session_id, saved);
+    return saved;
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    this.sessions.forEach((session, id) => {
+      if (session.expires_at.getTime() <= now) {
+        this.sessions.delete(id);
+      }
+    });
+  }
+}
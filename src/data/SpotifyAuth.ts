@@ -0,0 +1,234 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { CredentialStore } from '@/data/CredentialStore';
+import {
+  AuthenticationError,
+  SpotifyAuthError,
+  SpotifyConfig,
+  SpotifyCredentials
+} from '@/types';
+import { logger } from '@/utils/logger';
+
+// How long a user has to finish the consent screen
+const PENDING_LOGIN_TTL_MS = 10 * 60 * 1000;
+
+// Refresh this long before expiry so a token doesn't lapse mid-request
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+interface PendingLogin {
+  userId: string;
+  apiKeyId: string;
+  codeVerifier: string;
+  expiresAt: number;
+}
+
+interface TokenEndpointResponse {
+  access_token: string;
+  token_type: string;
+  scope?: string;
+  expires_in: number;
+  refresh_token?: string;
+}
+
+/**
+ * Short, stable tag for a user_id in logs; the user_id itself is a credential
+ */
+const logTag = (userId: string): string => createHash('sha256').update(userId).digest('hex').slice(0, 12);
+
+const base64Url = (buffer: Buffer): string => {
+  return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+/**
+ * Spotify authorization-code flow with PKCE.
+ * login() hands out the consent URL and remembers the state and code verifier;
+ * callback() checks the state, exchanges the code and stores the grant.
+ * getAccessToken() returns a valid access token, refreshing it when close to expiry.
+ */
+export class SpotifyAuth {
+  private config: SpotifyConfig;
+  private store: CredentialStore;
+  private pending: Map<string, PendingLogin> = new Map();
+  private refreshing: Map<string, Promise<SpotifyCredentials>> = new Map();
+
+  constructor(config: SpotifyConfig, store: CredentialStore) {
+    this.config = config;
+    this.store = store;
+  }
+
+  /**
+   * Start a login for an API key; returns the Spotify consent URL to redirect
+   * the user to. The user_id is random so it can't be guessed to reach someone
+   * else's account, and the connection only answers to the same API key.
+   */
+  login(apiKeyId: string): { authorizeUrl: string; state: string; userId: string } {
+    this.prunePending();
+
+    const state = base64Url(randomBytes(16));
+    const codeVerifier = base64Url(randomBytes(64));
+    const codeChallenge = base64Url(createHash('sha256').update(codeVerifier).digest());
+    const userId = randomUUID();
+
+    this.pending.set(state, {
+      userId,
+      apiKeyId,
+      codeVerifier,
+      expiresAt: Date.now() + PENDING_LOGIN_TTL_MS
+    });
+
+    const params = new URLSearchParams({
+      client_id: this.config.clientId,
+      response_type: 'code',
+      redirect_uri: this.config.redirectUri,
+      code_challenge_method: 'S256',
+      code_challenge: codeChallenge,
+      state,
+      scope: this.config.scopes.join(' ')
+    });
+
+    return {
+      authorizeUrl: `${this.config.accountsBaseUrl}/authorize?${params.toString()}`,
+      state,
+      userId
+    };
+  }
+
+  /**
+   * Finish a login from the redirect's query parameters
+   */
+  async callback(query: { code?: string; state?: string; error?: string }): Promise<SpotifyCredentials> {
+    const login = query.state ? this.pending.get(query.state) : undefined;
+    if (!login || login.expiresAt <= Date.now()) {
+      throw new AuthenticationError('Invalid or expired OAuth state');
+    }
+    // States are single use
+    this.pending.delete(query.state!);
+
+    if (query.error) {
+      throw new SpotifyAuthError(`Spotify authorization denied: ${query.error}`, 'SPOTIFY_AUTH_DENIED', 403);
+    }
+    if (!query.code) {
+      throw new AuthenticationError('Missing authorization code');
+    }
+
+    const grant = await this.requestToken({
+      grant_type: 'authorization_code',
+      code: query.code,
+      redirect_uri: this.config.redirectUri,
+      client_id: this.config.clientId,
+      code_verifier: login.codeVerifier
+    });
+
+    if (!grant.refresh_token) {
+      throw new SpotifyAuthError('Spotify did not return a refresh token');
+    }
+
+    const credentials = this.toCredentials(login.userId, login.apiKeyId, grant, grant.refresh_token);
+    await this.store.save(credentials);
+    logger.info(`Spotify account connected for user #${logTag(login.userId)}`);
+    return credentials;
+  }
+
+  /**
+   * A currently valid access token for a connected user. A user_id presented
+   * with another API key is treated as unknown, so it can't be probed.
+   */
+  async getAccessToken(userId: string, apiKeyId: string): Promise<string> {
+    const credentials = await this.store.get(userId);
+    if (!credentials || credentials.api_key_id !== apiKeyId) {
+      throw new AuthenticationError('Spotify account not connected');
+    }
+
+    if (credentials.expires_at.getTime() - REFRESH_MARGIN_MS > Date.now()) {
+      return credentials.access_token;
+    }
+
+    const refreshed = await this.refresh(credentials);
+    return refreshed.access_token;
+  }
+
+  /**
+   * Refresh a user's access token; concurrent callers share one request
+   */
+  refresh(credentials: SpotifyCredentials): Promise<SpotifyCredentials> {
+    const inProgress = this.refreshing.get(credentials.user_id);
+    if (inProgress) {
+      return inProgress;
+    }
+
+    const refresh = this.requestToken({
+      grant_type: 'refresh_token',
+      refresh_token: credentials.refresh_token,
+      client_id: this.config.clientId
+    })
+      .then(async grant => {
+        // Spotify may rotate the refresh token; keep the old one when it doesn't
+        const refreshToken = grant.refresh_token || credentials.refresh_token;
+        const updated = this.toCredentials(credentials.user_id, credentials.api_key_id, grant, refreshToken);
+        await this.store.save(updated);
+        return updated;
+      })
+      .finally(() => this.refreshing.delete(credentials.user_id));
+
+    this.refreshing.set(credentials.user_id, refresh);
+    return refresh;
+  }
+
+  private async requestToken(params: Record<string, string>): Promise<TokenEndpointResponse> {
+    const basic = Buffer.from(`${this.config.clientId}:${this.config.clientSecret}`).toString('base64');
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.config.accountsBaseUrl}/api/token`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Authorization: `Basic ${basic}`
+        },
+        body: new URLSearchParams(params).toString()
+      });
+    } catch (error) {
+      throw new SpotifyAuthError(
+        `Spotify accounts service unreachable: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      const reason = body.error_description || body.error || response.statusText;
+      // invalid_grant means the user revoked access or the code was reused
+      if (body.error === 'invalid_grant') {
+        throw new AuthenticationError(`Spotify rejected the grant: ${reason}`);
+      }
+      throw new SpotifyAuthError(`Spotify token request failed (${response.status}): ${reason}`);
+    }
+
+    return body as TokenEndpointResponse;
+  }
+
+  private toCredentials(
+    userId: string,
+    apiKeyId: string,
+    grant: TokenEndpointResponse,
+    refreshToken: string
+  ): SpotifyCredentials {
+    const now = Date.now();
+    return {
+      user_id: userId,
+      api_key_id: apiKeyId,
+      access_token: grant.access_token,
+      refresh_token: refreshToken,
+      scope: grant.scope || this.config.scopes.join(' '),
+      expires_at: new Date(now + grant.expires_in * 1000),
+      updated_at: new Date(now)
+    };
+  }
+
+  private prunePending(): void {
+    const now = Date.now();
+    this.pending.forEach((login, state) => {
+      if (login.expiresAt <= now) {
+        this.pending.delete(state);
+      }
+    });
+  }
+}
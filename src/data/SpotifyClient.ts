@@ -0,0 +1,229 @@
+import {
+  SpotifyAPIError,
+  SpotifyAudioFeatures,
+  SpotifyPage,
+  SpotifyPlaylist,
+  SpotifyPlaylistItem,
+  SpotifyRecentlyPlayed,
+  SpotifyTrack,
+  SpotifyUnavailableError
+} from '@/types';
+import { chunkArray, retry } from '@/utils/helpers';
+import { logger } from '@/utils/logger';
+
+// Per-call ID limits of the batch endpoints
+const AUDIO_FEATURES_BATCH_SIZE = 100;
+const TRACKS_BATCH_SIZE = 50;
+
+export interface SpotifyClientOptions {
+  baseUrl: string;
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+  // Retry-After values above this fail fast instead of stalling the request
+  maxRetryAfterMs?: number;
+  // Total time the client may spend on calls and retries, counted from its
+  // creation; clients are created per API request
+  timeBudgetMs?: number;
+}
+
+type QueryValue = string | number | undefined;
+
+/**
+ * Rate limits, 5xx and network errors, which a later attempt may get past
+ */
+const isTransient = (error: unknown): error is SpotifyAPIError => {
+  if (!(error instanceof SpotifyAPIError)) {
+    return false;
+  }
+  // No status means the request never got a response
+  return error.httpStatus === undefined || error.httpStatus === 429 || error.httpStatus >= 500;
+};
+
+/**
+ * Typed client for the Spotify Web API.
+ * Rate-limited (429) and 5xx responses are retried, waiting for Retry-After
+ * when Spotify sends it; other failures surface as SpotifyAPIError carrying
+ * Spotify's own error reason as spotifyCode.
+ *
+ * All calls share one time budget, so parallel batches can't each retry for
+ * the full schedule. A retry that wouldn't finish within it isn't attempted:
+ * a 429 is passed through and a 5xx or network error becomes a 503
+ * SpotifyUnavailableError, both with a Retry-After.
+ */
+export class SpotifyClient {
+  private getAccessToken: () => Promise<string>;
+  private baseUrl: string;
+  private maxRetries: number;
+  private retryBaseDelayMs: number;
+  private maxRetryAfterMs: number;
+  private deadline: number;
+
+  constructor(getAccessToken: () => Promise<string>, options: SpotifyClientOptions) {
+    this.getAccessToken = getAccessToken;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.maxRetries = options.maxRetries ?? 4;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 500;
+    this.maxRetryAfterMs = options.maxRetryAfterMs ?? 5000;
+    this.deadline = Date.now() + (options.timeBudgetMs ?? 20000);
+  }
+
+  /**
+   * The user's recently played tracks, newest first
+   */
+  async getRecentlyPlayed(
+    options: { after?: number; before?: number; maxItems?: number } = {}
+  ): Promise<SpotifyRecentlyPlayed[]> {
+    return this.paginate<SpotifyRecentlyPlayed>(
+      this.buildUrl('/me/player/recently-played', { limit: 50, after: options.after, before: options.before }),
+      options.maxItems
+    );
+  }
+
+  /**
+   * Audio features for many tracks, aligned with `ids`; null where Spotify has none
+   */
+  async getAudioFeatures(ids: string[]): Promise<Array<SpotifyAudioFeatures | null>> {
+    const batches = await Promise.all(chunkArray(ids, AUDIO_FEATURES_BATCH_SIZE).map(batch =>
+      this.request<{ audio_features: Array<SpotifyAudioFeatures | null> }>(
+        this.buildUrl('/audio-features', { ids: batch.join(',') })
+      )
+    ));
+    return ([] as Array<SpotifyAudioFeatures | null>).concat(...batches.map(batch => batch.audio_features));
+  }
+
+  async getTrack(id: string): Promise<SpotifyTrack> {
+    return this.request<SpotifyTrack>(this.buildUrl(`/tracks/${encodeURIComponent(id)}`));
+  }
+
+  /**
+   * Tracks for many IDs, aligned with `ids`; null for unknown IDs
+   */
+  async getTracks(ids: string[]): Promise<Array<SpotifyTrack | null>> {
+    const batches = await Promise.all(chunkArray(ids, TRACKS_BATCH_SIZE).map(batch =>
+      this.request<{ tracks: Array<SpotifyTrack | null> }>(this.buildUrl('/tracks', { ids: batch.join(',') }))
+    ));
+    return ([] as Array<SpotifyTrack | null>).concat(...batches.map(batch => batch.tracks));
+  }
+
+  async getPlaylist(id: string): Promise<SpotifyPlaylist> {
+    return this.request<SpotifyPlaylist>(
+      this.buildUrl(`/playlists/${encodeURIComponent(id)}`, {
+        fields: 'id,name,description,owner,public,snapshot_id,tracks(total,href),external_urls'
+      })
+    );
+  }
+
+  async getPlaylistTracks(id: string, maxItems?: number): Promise<SpotifyPlaylistItem[]> {
+    return this.paginate<SpotifyPlaylistItem>(
+      this.buildUrl(`/playlists/${encodeURIComponent(id)}/tracks`, { limit: 100 }),
+      maxItems
+    );
+  }
+
+  /**
+   * Playlists owned or followed by the current user
+   */
+  async getMyPlaylists(maxItems?: number): Promise<SpotifyPlaylist[]> {
+    return this.paginate<SpotifyPlaylist>(this.buildUrl('/me/playlists', { limit: 50 }), maxItems);
+  }
+
+  /**
+   * Follow `next` links until the list ends or `maxItems` are collected
+   */
+  private async paginate<T>(firstUrl: string, maxItems = Infinity): Promise<T[]> {
+    const items: T[] = [];
+    let url: string | null = firstUrl;
+
+    while (url && items.length < maxItems) {
+      const page: SpotifyPage<T> = await this.request<SpotifyPage<T>>(url);
+      items.push(...page.items);
+      url = page.items.length > 0 ? page.next : null;
+    }
+
+    return items.slice(0, maxItems);
+  }
+
+  private buildUrl(path: string, query: Record<string, QueryValue> = {}): string {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined) {
+        params.set(key, String(value));
+      }
+    });
+
+    const search = params.toString();
+    return `${this.baseUrl}${path}${search ? `?${search}` : ''}`;
+  }
+
+  private async request<T>(url: string): Promise<T> {
+    try {
+      return await retry(() => this.send<T>(url), this.maxRetries, this.retryBaseDelayMs, {
+        shouldRetry: (error, attempt) => {
+          if (!isTransient(error) || (error.retryAfterMs ?? 0) > this.maxRetryAfterMs) {
+            return false;
+          }
+          return Date.now() + this.delayFor(error, attempt) < this.deadline;
+        },
+        delayFor: (error, attempt) => this.delayFor(error as SpotifyAPIError, attempt)
+      });
+    } catch (error) {
+      if (!isTransient(error)) {
+        throw error;
+      }
+
+      const retryAfterMs = this.delayFor(error, this.maxRetries);
+      if (error.httpStatus === 429) {
+        throw new SpotifyAPIError(error.message, error.spotifyCode, 429, retryAfterMs);
+      }
+      throw new SpotifyUnavailableError(`Spotify is unavailable: ${error.message}`, error, retryAfterMs);
+    }
+  }
+
+  /**
+   * Spotify's Retry-After, else exponential backoff
+   */
+  private delayFor(error: SpotifyAPIError, attempt: number): number {
+    return error.retryAfterMs ?? this.retryBaseDelayMs * Math.pow(2, attempt - 1);
+  }
+
+  private async send<T>(url: string): Promise<T> {
+    const accessToken = await this.getAccessToken();
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+        // A hung connection would otherwise outlive the budget
+        signal: AbortSignal.timeout(Math.max(this.deadline - Date.now(), 1))
+      });
+    } catch (error) {
+      throw new SpotifyAPIError(
+        `Spotify API unreachable: ${error instanceof Error ? error.message : String(error)}`,
+        'NETWORK_ERROR'
+      );
+    }
+
+    if (response.ok) {
+      return response.json() as Promise<T>;
+    }
+
+    const body = await response.json().catch(() => ({}));
+    const message = body.error?.message || response.statusText;
+    const spotifyCode = body.error?.reason || `HTTP_${response.status}`;
+    const retryAfter = response.headers.get('retry-after');
+    const retryAfterMs = response.status === 429 && retryAfter && Number.isFinite(Number(retryAfter))
+      ? Number(retryAfter) * 1000
+      : undefined;
+
+    if (response.status === 429) {
+      logger.warn(`Spotify rate limit hit; retry after ${retryAfterMs ?? 'unknown'} ms`);
+    }
+
+    throw new SpotifyAPIError(
+      `Spotify API request failed (${response.status}): ${message}`,
+      spotifyCode,
+      response.status,
+      retryAfterMs
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { HistoryImporter, HistoryPlay } from '@/data/HistoryImporter';
+import { HistorySource, SpotifyStreamingRecord } from '@/types';
+import { parseJsonArrayStream } from '@/utils/jsonStream';
+
+const TRACK_URI_PREFIX = 'spotify:track:';
+
+/**
+ * Imports Spotify's extended streaming history export
+ * (endsong_*.json / Streaming_History_Audio_*.json).
+ *
+ * Files are parsed incrementally, so several years of history can be ingested
+ * file by file before build() joins the plays with the feature catalog.
+ */
+export class SpotifyHistoryImporter extends HistoryImporter {
+  protected readonly source: HistorySource = 'spotify';
+
+  async ingest(chunks: AsyncIterable<Buffer | string>): Promise<number> {
+    return this.consume(
+      parseJsonArrayStream(chunks, this.options.maxBytes),
+      record => toPlay(record as SpotifyStreamingRecord)
+    );
+  }
+}
+
+const toPlay = (record: SpotifyStreamingRecord): HistoryPlay | null => {
+  const endedAt = Date.parse(record.ts);
+  // Podcast episodes and audiobooks have no track URI
+  if (!record.spotify_track_uri || !Number.isFinite(endedAt) || typeof record.ms_played !== 'number') {
+    return null;
+  }
+
+  return {
+    id: record.spotify_track_uri.startsWith(TRACK_URI_PREFIX)
+      ? record.spotify_track_uri.slice(TRACK_URI_PREFIX.length)
+      : undefined,
+    name: record.master_metadata_track_name || '',
+    artist: record.master_metadata_album_artist_name || '',
+    album: record.master_metadata_album_album_name || '',
+    startedAt: endedAt - record.ms_played,
+    msPlayed: record.ms_played,
+    // Older exports have no skipped flag; ms_played decides then
+    skipped: record.reason_end === 'fwdbtn' ? true : record.skipped ?? undefined
+  };
+};
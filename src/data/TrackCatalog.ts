@@ -0,0 +1,214 @@
+import { existsSync, readFileSync } from 'fs';
+import { CSVDataLoader } from '@/data/CSVDataLoader';
+import {
+  CatalogError,
+  CatalogFeature,
+  CatalogMatch,
+  CatalogTrack,
+  RecommendRequest,
+  Track,
+  TrackRecommendation
+} from '@/types';
+import { artistSimilarity, normalizeArtists, normalizeTitle, similarity } from '@/utils/fuzzyMatch';
+import { logger } from '@/utils/logger';
+import { validateCatalogTracks } from '@/utils/validation';
+
+/**
+ * Columns of the vector index, in order. All share a [0, 1] scale, so raw
+ * Spotify features and normalized model features index identically.
+ */
+export const CATALOG_FEATURES: CatalogFeature[] = [
+  'valence',
+  'energy',
+  'danceability',
+  'acousticness',
+  'instrumentalness',
+  'speechiness',
+  'liveness'
+];
+
+export type CatalogFilters = NonNullable<RecommendRequest['filters']>;
+
+// Share of a name match's score that comes from the title
+const TITLE_WEIGHT = 0.6;
+
+interface NameIndex {
+  titles: string[];
+  artists: string[][];
+  byTitle: Map<string, number[]>;
+  byArtist: Map<string, number[]>;
+}
+
+/**
+ * In-memory nearest-neighbour index over a track catalog.
+ * Feature vectors are packed into one Float32Array and searched with an exact
+ * linear scan, which stays in the low milliseconds for a few hundred thousand
+ * tracks and needs no index rebuilds.
+ */
+export class TrackCatalog {
+  private tracks: CatalogTrack[];
+  private byId: Map<string, CatalogTrack>;
+  private vectors: Float32Array;
+  private source: string;
+  private names: NameIndex | null = null;
+
+  constructor(tracks: CatalogTrack[], source: string) {
+    this.tracks = tracks.filter(track => track.features);
+    this.source = source;
+    this.byId = new Map(this.tracks.map(track => [track.id, track]));
+
+    const width = CATALOG_FEATURES.length;
+    this.vectors = new Float32Array(this.tracks.length * width);
+    this.tracks.forEach((track, i) => {
+      CATALOG_FEATURES.forEach((feature, j) => {
+        this.vectors[i * width + j] = track.features![feature];
+      });
+    });
+  }
+
+  /**
+   * Index the Spotify CSV dataset used for training
+   */
+  static fromCSV(maxTracks: number): TrackCatalog {
+    const tracks: Track[] = new CSVDataLoader().getTracks(maxTracks);
+    const catalog = tracks.map(({ played_at, ...track }) => track);
+    return new TrackCatalog(catalog, 'csv');
+  }
+
+  /**
+   * Index a JSON file holding an array of tracks with features
+   */
+  static fromJSON(path: string, maxTracks: number): TrackCatalog {
+    if (!existsSync(path)) {
+      throw new CatalogError(`Catalog file not found: ${path}`);
+    }
+
+    const tracks = validateCatalogTracks(JSON.parse(readFileSync(path, 'utf-8')));
+    if (tracks.length > maxTracks) {
+      logger.warn(`Catalog ${path} has ${tracks.length} tracks; indexing the first ${maxTracks}`);
+    }
+    return new TrackCatalog(tracks.slice(0, maxTracks), path);
+  }
+
+  size(): number {
+    return this.tracks.length;
+  }
+
+  getSource(): string {
+    return this.source;
+  }
+
+  getById(id: string): CatalogTrack | undefined {
+    return this.byId.get(id);
+  }
+
+  /**
+   * Best catalog track for an artist/title pair, with a 0-1 similarity score.
+   * Candidates share the normalized title or one of the artists; the caller
+   * decides which score is close enough to count as a match.
+   */
+  matchByName(artist: string, title: string): CatalogMatch | undefined {
+    const names = this.getNameIndex();
+    const queryTitle = normalizeTitle(title);
+    const queryArtists = normalizeArtists(artist);
+
+    const candidates = new Set(names.byTitle.get(queryTitle) || []);
+    queryArtists.forEach(name => (names.byArtist.get(name) || []).forEach(i => candidates.add(i)));
+
+    let best: CatalogMatch | undefined;
+    candidates.forEach(i => {
+      const score = TITLE_WEIGHT * similarity(queryTitle, names.titles[i]) +
+        (1 - TITLE_WEIGHT) * artistSimilarity(queryArtists, names.artists[i]);
+      if (!best || score > best.score) {
+        best = { track: this.tracks[i], score };
+      }
+    });
+    return best;
+  }
+
+  /**
+   * The k tracks closest to the target, by Euclidean distance over the given features
+   */
+  nearest(
+    target: Partial<Record<CatalogFeature, number>>,
+    k: number,
+    filters: CatalogFilters = {}
+  ): TrackRecommendation[] {
+    const columns = CATALOG_FEATURES
+      .map((feature, j) => ({ j, value: target[feature] }))
+      .filter((column): column is { j: number; value: number } => typeof column.value === 'number');
+    if (columns.length === 0) {
+      throw new CatalogError('No target features to match on', 'INVALID_TARGET', 400);
+    }
+
+    const excluded = new Set(filters.exclude_ids || []);
+    const minPopularity = filters.popularity?.min ?? 0;
+    const maxPopularity = filters.popularity?.max ?? 100;
+    const width = CATALOG_FEATURES.length;
+
+    // Best k so far, kept sorted by distance
+    const best: Array<{ index: number; distance: number }> = [];
+
+    for (let i = 0; i < this.tracks.length; i++) {
+      const track = this.tracks[i];
+      if (excluded.has(track.id) || track.popularity < minPopularity || track.popularity > maxPopularity) {
+        continue;
+      }
+
+      let sq = 0;
+      for (const { j, value } of columns) {
+        const diff = this.vectors[i * width + j] - value;
+        sq += diff * diff;
+      }
+
+      if (best.length === k && sq >= best[k - 1].distance) {
+        continue;
+      }
+
+      let slot = best.length;
+      while (slot > 0 && best[slot - 1].distance > sq) {
+        slot--;
+      }
+      best.splice(slot, 0, { index: i, distance: sq });
+      if (best.length > k) {
+        best.pop();
+      }
+    }
+
+    return best.map(({ index, distance }) => ({
+      track: this.tracks[index],
+      distance: Math.sqrt(distance)
+    }));
+  }
+
+  /**
+   * Normalized names, built on first use since only history imports need them
+   */
+  private getNameIndex(): NameIndex {
+    if (this.names) {
+      return this.names;
+    }
+
+    const index: NameIndex = { titles: [], artists: [], byTitle: new Map(), byArtist: new Map() };
+    const add = (map: Map<string, number[]>, key: string, i: number): void => {
+      const entries = map.get(key);
+      if (entries) {
+        entries.push(i);
+      } else {
+        map.set(key, [i]);
+      }
+    };
+
+    this.tracks.forEach((track, i) => {
+      const title = normalizeTitle(track.name);
+      const artists = normalizeArtists(track.artist);
+      index.titles.push(title);
+      index.artists.push(artists);
+      add(index.byTitle, title, i);
+      artists.forEach(name => add(index.byArtist, name, i));
+    });
+
+    this.names = index;
+    return index;
+  }
+}
@@ -24,15 +24,16 @@ async function main(): Promise<void> {
     // Initialize API server
     const api = new VibeChainAPI(config);
 
-    // Load model if available
-    const modelPath = join(process.cwd(), 'models', 'listening_analyzer', 'model.json');
-    if (existsSync(modelPath)) {
-      logger.info('Loading pre-trained VibeChain model...');
-      await api.loadModel(`file://${modelPath}`);
-    } else {
+    // Load every model version available under the models directory
+    logger.info('Loading pre-trained VibeChain models...');
+    const versions = await api.loadModels();
+    if (versions.length === 0) {
       logger.warn('No pre-trained model found. Train a model first using npm run train');
     }
 
+    // Index the track catalog used by /recommend
+    await api.loadCatalog();
+
     // Start the server
     await api.start();
     
@@ -0,0 +1,77 @@
+import * as tf from '@tensorflow/tfjs-node';
+import { ModelError } from '@/types';
+
+// Fixed seed so the projection (and therefore every stored embedding) is stable across restarts
+const PROJECTION_SEED = 1337;
+
+/**
+ * Session embeddings from the network's penultimate layer.
+ * Activations are mean-pooled over the session's tracks, projected to `embedDim`
+ * and L2-normalized so cosine similarity is a plain dot product.
+ */
+export class EmbeddingExtractor {
+  private featureModel: tf.LayersModel;
+  private projection: tf.Tensor2D | null;
+  private embedDim: number;
+
+  constructor(network: tf.LayersModel, embedDim: number) {
+    if (network.layers.length < 2) {
+      throw new ModelError('Model has no hidden layer to take embeddings from');
+    }
+
+    const penultimate = network.layers[network.layers.length - 2];
+    this.featureModel = tf.model({
+      inputs: network.inputs,
+      outputs: penultimate.output as tf.SymbolicTensor
+    });
+    this.embedDim = embedDim;
+
+    // Random Gaussian projection keeps pairwise distances when the hidden width differs
+    const hiddenDim = (penultimate.outputShape as number[])[1];
+    this.projection = hiddenDim === embedDim
+      ? null
+      : tf.randomNormal([hiddenDim, embedDim], 0, 1 / Math.sqrt(embedDim), 'float32', PROJECTION_SEED) as tf.Tensor2D;
+  }
+
+  getDimension(): number {
+    return this.embedDim;
+  }
+
+  /**
+   * Embed several sessions in a single forward pass
+   */
+  embedSessions(sessions: number[][][]): number[][] {
+    const lengths = sessions.map(session => session.length);
+    const rows = ([] as number[][]).concat(...sessions);
+
+    const pooled = tf.tidy(() => {
+      let activations = this.featureModel.predict(tf.tensor2d(rows)) as tf.Tensor2D;
+      if (this.projection) {
+        activations = tf.matMul(activations, this.projection);
+      }
+
+      // Mean-pool each session's rows, then L2-normalize
+      const means = tf.split(activations, lengths, 0).map(part => tf.mean(part, 0));
+      const stacked = tf.stack(means) as tf.Tensor2D;
+      const norms = tf.norm(stacked, 'euclidean', 1, true).maximum(1e-12);
+      return tf.div(stacked, norms);
+    });
+
+    try {
+      return pooled.arraySync() as number[][];
+    } finally {
+      pooled.dispose();
+    }
+  }
+
+  /**
+   * Embed one session given its feature vectors
+   */
+  embed(vectors: number[][]): number[] {
+    return this.embedSessions([vectors])[0];
+  }
+
+  dispose(): void {
+    this.projection?.dispose();
+  }
+}
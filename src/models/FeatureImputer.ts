@@ -0,0 +1,270 @@
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { CSVDataLoader } from '@/data/CSVDataLoader';
+import { FeatureStatsUnavailableError, ImputedTrack, SpotifyAudioFeatures, TrackFeatures } from '@/types';
+import { clamp, sleep } from '@/utils/helpers';
+import { logger } from '@/utils/logger';
+import { FEATURE_ORDER, featuresToVector, normalizeSpotifyFeatures } from '@/utils/normalization';
+
+/**
+ * Input statistics written next to the model by the CSV trainer
+ */
+export interface FeatureStats {
+  // Both in FEATURE_ORDER, over normalized model inputs
+  means: number[];
+  covariance: number[][];
+  samples: number;
+  created_at?: string;
+}
+
+export type FeatureStatsSource = 'model' | 'dataset';
+
+export const FEATURE_STATS_FILENAME = 'feature_stats.json';
+
+// Dataset fallback statistics, cached in the models directory
+export const DATASET_STATS_FILENAME = 'dataset_feature_stats.json';
+
+// Tracks sampled from the CSV dataset for models trained before stats were saved
+const DATASET_STATS_SAMPLE = 5000;
+
+// Added to the observed block's diagonal so collinear features stay solvable
+const RIDGE = 1e-6;
+
+/**
+ * Means and covariance of a set of model input vectors
+ */
+export const computeFeatureStats = (vectors: number[][]): FeatureStats => {
+  const width = FEATURE_ORDER.length;
+  const count = vectors.length;
+  const means = Array.from({ length: width }, (_, j) => vectors.reduce((sum, row) => sum + row[j], 0) / count);
+  const covariance = Array.from({ length: width }, (_, a) =>
+    Array.from({ length: width }, (_, b) =>
+      vectors.reduce((sum, row) => sum + (row[a] - means[a]) * (row[b] - means[b]), 0) / Math.max(count - 1, 1)
+    )
+  );
+
+  return { means, covariance, samples: count, created_at: new Date().toISOString() };
+};
+
+/**
+ * Solve A·X = B for X by Gaussian elimination with partial pivoting
+ */
+const solve = (a: number[][], b: number[][]): number[][] => {
+  const n = a.length;
+  const m = a.map((row, i) => [...row, ...b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) {
+        pivot = row;
+      }
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let row = 0; row < n; row++) {
+      if (row !== col && m[col][col] !== 0) {
+        const factor = m[row][col] / m[col][col];
+        for (let k = col; k < m[row].length; k++) {
+          m[row][k] -= factor * m[col][k];
+        }
+      }
+    }
+  }
+
+  return m.map((row, i) => row.slice(n).map(value => (row[i] === 0 ? 0 : value / row[i])));
+};
+
+// Shared by every model without its own stats
+let datasetStats: FeatureStats | null = null;
+let datasetStatsPending: Promise<FeatureStats | null> | null = null;
+let datasetStatsFailedAt = 0;
+// Where computed dataset statistics are kept between loads and restarts
+let datasetStatsCachePath: string | null = null;
+
+// Wait before scanning the dataset again after a failed attempt
+const DATASET_STATS_RETRY_MS = 60000;
+
+const readStatsFile = (path: string): FeatureStats | undefined => {
+  if (!existsSync(path)) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')) as FeatureStats;
+  } catch (error) {
+    logger.warn(`Ignoring unreadable feature statistics ${path}:`, error);
+    return undefined;
+  }
+};
+
+const writeStatsCache = (stats: FeatureStats): void => {
+  if (!datasetStatsCachePath) {
+    return;
+  }
+
+  try {
+    const temporary = `${datasetStatsCachePath}.tmp`;
+    writeFileSync(temporary, JSON.stringify(stats));
+    renameSync(temporary, datasetStatsCachePath);
+  } catch (error) {
+    logger.warn(`Could not cache dataset feature statistics at ${datasetStatsCachePath}:`, error);
+  }
+};
+
+/**
+ * Statistics of the CSV dataset, from the cache file when there is one.
+ * The dataset scan is synchronous and blocks the event loop, so it runs at
+ * most once per cache file; concurrent calls share it, and a failure may be
+ * retried after DATASET_STATS_RETRY_MS.
+ */
+const loadDatasetStats = (): Promise<FeatureStats | null> => {
+  if (datasetStats) {
+    return Promise.resolve(datasetStats);
+  }
+  if (datasetStatsPending) {
+    return datasetStatsPending;
+  }
+
+  const cached = datasetStatsCachePath ? readStatsFile(datasetStatsCachePath) : undefined;
+  if (cached) {
+    datasetStats = cached;
+    return Promise.resolve(datasetStats);
+  }
+  if (Date.now() - datasetStatsFailedAt < DATASET_STATS_RETRY_MS) {
+    return Promise.resolve(null);
+  }
+
+  // Start on a later tick so a triggering request answers first
+  datasetStatsPending = sleep(0)
+    .then(() => {
+      const vectors = new CSVDataLoader()
+        .getTracks(DATASET_STATS_SAMPLE)
+        .filter(track => track.features)
+        .map(track => featuresToVector(normalizeSpotifyFeatures({
+          ...(track.features as SpotifyAudioFeatures),
+          played_at: track.played_at
+        })))
+        .filter(vector => vector.every(Number.isFinite));
+      if (vectors.length < 2) {
+        throw new Error(`only ${vectors.length} dataset tracks have features`);
+      }
+
+      const stats: FeatureStats = { ...computeFeatureStats(vectors), created_at: new Date().toISOString() };
+      datasetStats = stats;
+      writeStatsCache(stats);
+      logger.info(`Feature statistics computed from ${vectors.length} dataset tracks`);
+      return stats;
+    })
+    .catch(error => {
+      logger.warn('Feature statistics unavailable from the CSV dataset:', error);
+      datasetStatsFailedAt = Date.now();
+      return null;
+    })
+    .finally(() => {
+      datasetStatsPending = null;
+    });
+  return datasetStatsPending;
+};
+
+/**
+ * Fills in missing input features with their expectation given the features
+ * that were provided, under a Gaussian fitted to the training inputs. With
+ * nothing provided that is just the training mean.
+ *
+ * Each track also gets an information loss: the share of total input variance
+ * that its imputed fields still leave unexplained, used to discount confidence.
+ */
+export class FeatureImputer {
+  private stats: FeatureStats | null;
+  private source: FeatureStatsSource;
+
+  constructor(stats?: FeatureStats) {
+    this.stats = stats || null;
+    this.source = stats ? 'model' : 'dataset';
+  }
+
+  /**
+   * Complete every track; only tracks with missing fields are listed in `imputed`
+   */
+  complete(tracks: Array<Partial<TrackFeatures>>): { tracks: TrackFeatures[]; imputed: ImputedTrack[] } {
+    const imputed: ImputedTrack[] = [];
+    const completed = tracks.map((track, index) => {
+      // Non-finite values, such as an undetected key, count as missing
+      const missing = FEATURE_ORDER.filter(feature => !Number.isFinite(track[feature]));
+      if (missing.length === 0) {
+        return track as TrackFeatures;
+      }
+
+      const { features, informationLoss } = this.impute(track, missing);
+      imputed.push({ index, fields: missing, information_loss: informationLoss });
+      return features;
+    });
+
+    return { tracks: completed, imputed };
+  }
+
+  getSource(): FeatureStatsSource {
+    return this.source;
+  }
+
+  private impute(
+    track: Partial<TrackFeatures>,
+    missing: Array<keyof TrackFeatures>
+  ): { features: TrackFeatures; informationLoss: number } {
+    const stats = this.getStats();
+    const missingIdx = missing.map(feature => FEATURE_ORDER.indexOf(feature));
+    const observedIdx = FEATURE_ORDER.map((_, i) => i).filter(i => !missingIdx.includes(i));
+    const { means, covariance } = stats;
+
+    // Conditional Gaussian: mean_m + Σ_mo Σ_oo⁻¹ (x_o - mean_o), variance Σ_mm - Σ_mo Σ_oo⁻¹ Σ_om
+    const sigmaOO = observedIdx.map((a, i) => observedIdx.map((b, j) => covariance[a][b] + (i === j ? RIDGE : 0)));
+    const rhs = observedIdx.map(a => [
+      (track[FEATURE_ORDER[a]] as number) - means[a],
+      ...missingIdx.map(m => covariance[a][m])
+    ]);
+    const solved = observedIdx.length > 0 ? solve(sigmaOO, rhs) : [];
+
+    const features = { ...track } as TrackFeatures;
+    let unexplained = 0;
+    missingIdx.forEach((m, k) => {
+      const shift = observedIdx.reduce((sum, o, i) => sum + covariance[m][o] * solved[i][0], 0);
+      const reduction = observedIdx.reduce((sum, o, i) => sum + covariance[m][o] * solved[i][k + 1], 0);
+      features[FEATURE_ORDER[m]] = clamp(means[m] + shift, 0, 1);
+      unexplained += Math.max(covariance[m][m] - reduction, 0);
+    });
+
+    const totalVariance = FEATURE_ORDER.reduce((sum, _, i) => sum + covariance[i][i], 0);
+    return {
+      features,
+      informationLoss: totalVariance > 0 ? clamp(unexplained / totalVariance, 0, 1) : 0
+    };
+  }
+
+  private getStats(): FeatureStats {
+    const stats = this.stats || datasetStats;
+    if (!stats) {
+      // Retry in the background; a request never waits for the dataset scan
+      void loadDatasetStats();
+      throw new FeatureStatsUnavailableError();
+    }
+    return stats;
+  }
+
+  /**
+   * Prepare the dataset fallback for models without their own statistics,
+   * caching it at `cachePath`. Called while loading a model so the first
+   * request doesn't pay for the scan; later loads reuse the result.
+   */
+  static async prepareDatasetStats(cachePath: string): Promise<boolean> {
+    datasetStatsCachePath = cachePath;
+    return (await loadDatasetStats()) !== null;
+  }
+
+  /**
+   * Load the feature statistics stored beside a model.json, if any
+   */
+  static loadStats(modelUrl: string): FeatureStats | undefined {
+    return readStatsFile(join(dirname(modelUrl.replace(/^file:\/\//, '')), FEATURE_STATS_FILENAME));
+  }
+}
@@ -0,0 +1,218 @@
+import * as tf from '@tensorflow/tfjs-node';
+import { LoadedModel } from '@/models/ModelRegistry';
+import { InferenceSchedulerStats, SchedulerConfig } from '@/types';
+import { PREDICTION_OUTPUTS } from '@/utils/predictions';
+
+/**
+ * Raw model output for one submitted session
+ */
+export interface RawInference {
+  // Flat [n, 3] predictions for the session's rows
+  values: number[];
+  // Per-row MC dropout std; empty unless confidence was requested
+  std: number[][];
+  embedding?: number[];
+}
+
+interface PendingInference {
+  vectors: number[][];
+  wantsEmbedding: boolean;
+  wantsConfidence: boolean;
+  enqueuedAt: number;
+  resolve: (inference: RawInference) => void;
+  reject: (error: Error) => void;
+}
+
+interface ModelQueue {
+  pending: PendingInference[];
+  rows: number;
+  timer: NodeJS.Timeout | null;
+}
+
+/**
+ * Coalesces concurrent inference requests into batched forward passes.
+ * Requests for the same model wait up to `windowMs` (or until `maxBatchRows`
+ * rows are queued), then run as one predict + dropout pass and are scattered
+ * back. The model scores each row independently, so no padding is needed.
+ */
+export class InferenceScheduler {
+  private queues: Map<LoadedModel, ModelQueue> = new Map();
+  private config: SchedulerConfig;
+  private totals = {
+    batches: 0,
+    requests: 0,
+    rows: 0,
+    waitMs: 0,
+    maxBatchRequests: 0,
+    maxBatchRows: 0,
+    lastBatchAt: null as Date | null
+  };
+
+  constructor(config: SchedulerConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Queue one session's feature vectors for the given model. Dropout passes
+   * for confidence are costly, so they only run for requests that ask for them.
+   */
+  submit(
+    entry: LoadedModel,
+    vectors: number[][],
+    wantsEmbedding = false,
+    wantsConfidence = false
+  ): Promise<RawInference> {
+    return new Promise((resolve, reject) => {
+      const queue = this.getQueue(entry);
+      queue.pending.push({ vectors, wantsEmbedding, wantsConfidence, enqueuedAt: Date.now(), resolve, reject });
+      queue.rows += vectors.length;
+
+      if (queue.rows >= this.config.maxBatchRows) {
+        this.flush(entry);
+      } else if (!queue.timer) {
+        queue.timer = setTimeout(() => this.flush(entry), this.config.windowMs);
+      }
+    });
+  }
+
+  getStats(): InferenceSchedulerStats {
+    const queues = Array.from(this.queues.values());
+    const { batches, requests, rows, waitMs } = this.totals;
+
+    return {
+      window_ms: this.config.windowMs,
+      max_batch_rows: this.config.maxBatchRows,
+      queue_depth: queues.reduce((sum, queue) => sum + queue.pending.length, 0),
+      queued_rows: queues.reduce((sum, queue) => sum + queue.rows, 0),
+      batches,
+      requests,
+      rows,
+      avg_batch_requests: batches > 0 ? requests / batches : 0,
+      avg_batch_rows: batches > 0 ? rows / batches : 0,
+      max_batch_requests: this.totals.maxBatchRequests,
+      max_batch_rows_seen: this.totals.maxBatchRows,
+      avg_wait_ms: requests > 0 ? waitMs / requests : 0,
+      last_batch_at: this.totals.lastBatchAt
+    };
+  }
+
+  private getQueue(entry: LoadedModel): ModelQueue {
+    let queue = this.queues.get(entry);
+    if (!queue) {
+      queue = { pending: [], rows: 0, timer: null };
+      this.queues.set(entry, queue);
+    }
+    return queue;
+  }
+
+  /**
+   * Run queued requests in batches of at most maxBatchRows rows
+   */
+  private flush(entry: LoadedModel): void {
+    const queue = this.queues.get(entry);
+    if (!queue) {
+      return;
+    }
+    if (queue.timer) {
+      clearTimeout(queue.timer);
+    }
+    this.queues.delete(entry);
+
+    let batch: PendingInference[] = [];
+    let rows = 0;
+    for (const pending of queue.pending) {
+      if (batch.length > 0 && rows + pending.vectors.length > this.config.maxBatchRows) {
+        this.run(entry, batch);
+        batch = [];
+        rows = 0;
+      }
+      batch.push(pending);
+      rows += pending.vectors.length;
+    }
+    if (batch.length > 0) {
+      this.run(entry, batch);
+    }
+  }
+
+  private run(entry: LoadedModel, batch: PendingInference[]): void {
+    const now = Date.now();
+    const rowCount = batch.reduce((sum, pending) => sum + pending.vectors.length, 0);
+
+    this.totals.batches++;
+    this.totals.requests += batch.length;
+    this.totals.rows += rowCount;
+    this.totals.waitMs += batch.reduce((sum, pending) => sum + (now - pending.enqueuedAt), 0);
+    this.totals.maxBatchRequests = Math.max(this.totals.maxBatchRequests, batch.length);
+    this.totals.maxBatchRows = Math.max(this.totals.maxBatchRows, rowCount);
+    this.totals.lastBatchAt = new Date(now);
+
+    try {
+      const inferences = this.infer(entry, batch);
+      batch.forEach((pending, i) => pending.resolve(inferences[i]));
+    } catch (error) {
+      const failure = error instanceof Error ? error : new Error(String(error));
+      batch.forEach(pending => pending.reject(failure));
+    }
+  }
+
+  /**
+   * One forward pass over every row in the batch, plus dropout passes over
+   * the rows of requests that want confidence
+   */
+  private infer(entry: LoadedModel, batch: PendingInference[]): RawInference[] {
+    const inputTensor = tf.tensor2d(([] as number[][]).concat(...batch.map(pending => pending.vectors)));
+    let predictionTensor: tf.Tensor | null = null;
+
+    try {
+      predictionTensor = entry.network.predict(inputTensor) as tf.Tensor;
+      const values = Array.from(predictionTensor.dataSync());
+      const std = this.estimateStd(entry, batch.filter(pending => pending.wantsConfidence));
+
+      const embedded = batch.filter(pending => pending.wantsEmbedding);
+      const embeddings = entry.embeddings && embedded.length > 0
+        ? entry.embeddings.embedSessions(embedded.map(pending => pending.vectors))
+        : [];
+
+      const width = PREDICTION_OUTPUTS.length;
+      let offset = 0;
+      let stdOffset = 0;
+      let embeddingIndex = 0;
+
+      return batch.map(pending => {
+        const count = pending.vectors.length;
+        const inference: RawInference = {
+          values: values.slice(offset * width, (offset + count) * width),
+          std: []
+        };
+        if (pending.wantsConfidence) {
+          inference.std = std.slice(stdOffset, stdOffset + count);
+          stdOffset += count;
+        }
+        if (pending.wantsEmbedding) {
+          inference.embedding = embeddings[embeddingIndex++];
+        }
+        offset += count;
+        return inference;
+      });
+    } finally {
+      inputTensor.dispose();
+      predictionTensor?.dispose();
+    }
+  }
+
+  /**
+   * MC dropout std for the rows of the given requests, in order
+   */
+  private estimateStd(entry: LoadedModel, requests: PendingInference[]): number[][] {
+    if (requests.length === 0) {
+      return [];
+    }
+
+    const inputTensor = tf.tensor2d(([] as number[][]).concat(...requests.map(pending => pending.vectors)));
+    try {
+      return entry.uncertainty.estimate(inputTensor).std;
+    } finally {
+      inputTensor.dispose();
+    }
+  }
+}
@@ -0,0 +1,425 @@
+import * as tf from '@tensorflow/tfjs-node';
+import { existsSync, readdirSync, readFileSync, statSync, watch, FSWatcher } from 'fs';
+import { join } from 'path';
+import { UncertaintyEstimator } from '@/models/UncertaintyEstimator';
+import { EmbeddingExtractor } from '@/models/EmbeddingExtractor';
+import { DATASET_STATS_FILENAME, FeatureImputer } from '@/models/FeatureImputer';
+import {
+  ModelError,
+  ModelNotFoundError,
+  ModelNotLoadedError,
+  ModelReloadReport,
+  ModelVersionInfo,
+  RegistryConfig
+} from '@/types';
+import { debounce } from '@/utils/helpers';
+import { logger } from '@/utils/logger';
+
+export const METADATA_FILENAME = 'metadata.json';
+
+// Directory written by older trainer runs, served as the original 1.0.0 model
+const LEGACY_MODEL_DIR = 'listening_analyzer';
+const LEGACY_MODEL_VERSION = '1.0.0';
+
+const INPUT_FEATURES = 20;
+const OUTPUT_FEATURES = 3;
+
+/**
+ * Everything needed to serve one model version
+ */
+export interface LoadedModel {
+  version: string;
+  path: string;
+  network: tf.LayersModel;
+  uncertainty: UncertaintyEstimator;
+  embeddings: EmbeddingExtractor | null;
+  imputer: FeatureImputer;
+  loadedAt: Date;
+  metadata: Record<string, unknown>;
+  // Latest mtime across the model directory when it was loaded
+  fingerprint: number;
+  // Requests currently using this model; tensors are freed only once it drops to 0
+  inFlight: number;
+  retired: boolean;
+}
+
+/**
+ * Resolve a model directory or model.json path into a tfjs load URL
+ */
+export const toModelUrl = (path: string): string => {
+  if (/^(file|https?):\/\//.test(path)) {
+    return path;
+  }
+  return `file://${path.endsWith('.json') ? path : join(path, 'model.json')}`;
+};
+
+/**
+ * Read the optional metadata.json written by the trainer
+ */
+const readMetadata = (dir: string): Record<string, unknown> => {
+  const path = join(dir, METADATA_FILENAME);
+  if (!existsSync(path)) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    logger.warn(`Ignoring unreadable model metadata ${path}:`, error);
+    return {};
+  }
+};
+
+/**
+ * Latest modification time of any file in a model directory
+ */
+const directoryFingerprint = (dir: string): number => {
+  if (!existsSync(dir) || !statSync(dir).isDirectory()) {
+    return 0;
+  }
+  return readdirSync(dir).reduce((latest, file) => Math.max(latest, statSync(join(dir, file)).mtimeMs), 0);
+};
+
+/**
+ * Run one inference on a zero input and check the output shape and values
+ */
+const smokeTest = (network: tf.LayersModel): void => {
+  const values = tf.tidy(() => {
+    const output = network.predict(tf.zeros([1, INPUT_FEATURES])) as tf.Tensor;
+    if (output.shape.length !== 2 || output.shape[1] !== OUTPUT_FEATURES) {
+      throw new ModelError(`Expected output shape [1, ${OUTPUT_FEATURES}], got [${output.shape.join(', ')}]`);
+    }
+    return output.dataSync();
+  });
+
+  if (!Array.from(values).every(Number.isFinite)) {
+    throw new ModelError('Smoke inference produced non-finite values');
+  }
+};
+
+/**
+ * Holds every loaded model version, keyed by version string.
+ * Each subdirectory of the models directory that contains a model.json is one
+ * version, named by its metadata.json `version` field or else its directory name.
+ *
+ * Reloads prepare the new model fully (load + smoke inference) before swapping
+ * it into the map, so requests never see a half-loaded model. Inference callers
+ * go through acquire()/release(); a replaced model is disposed once the last
+ * request holding it releases it.
+ */
+export class ModelRegistry {
+  private models: Map<string, LoadedModel> = new Map();
+  private config: RegistryConfig;
+  private confidencePasses: number;
+  private embedDim: number;
+  private reloading: Promise<ModelReloadReport> | null = null;
+  // One reload queued behind the running one, for changes it may have missed
+  private queuedReload: Promise<ModelReloadReport> | null = null;
+  private queuedForce = false;
+  private watchers: FSWatcher[] = [];
+  private watchEnabled = false;
+  private scheduleReload: () => void;
+
+  constructor(config: RegistryConfig, confidencePasses: number, embedDim: number) {
+    this.config = config;
+    this.confidencePasses = confidencePasses;
+    this.embedDim = embedDim;
+
+    // Trainer runs write several files; wait for them to settle before reloading
+    this.scheduleReload = debounce(() => {
+      this.reload()
+        .then(report => {
+          if (report.loaded.length > 0 || report.removed.length > 0 || report.failed.length > 0) {
+            logger.info(`Model directory change: ${JSON.stringify(report)}`);
+          }
+        })
+        .catch(error => logger.error('Watched model reload failed:', error));
+    }, config.watchDebounceMs);
+  }
+
+  /**
+   * Load every versioned model directory under the models directory
+   */
+  async loadAll(): Promise<string[]> {
+    const report = await this.reload(true);
+    return report.loaded;
+  }
+
+  /**
+   * Rescan the models directory: load new or changed versions, retire removed ones.
+   * A call made while a reload is running queues one more rescan after it,
+   * shared by every call made meanwhile and forced if any of them asked to be.
+   */
+  reload(force = false): Promise<ModelReloadReport> {
+    if (!this.reloading) {
+      this.reloading = this.performReload(force).finally(() => {
+        this.reloading = null;
+        this.refreshWatchers();
+      });
+      return this.reloading;
+    }
+
+    this.queuedForce = this.queuedForce || force;
+    if (!this.queuedReload) {
+      this.queuedReload = this.reloading
+        .catch(() => undefined)
+        .then(() => {
+          const queuedForce = this.queuedForce;
+          this.queuedReload = null;
+          this.queuedForce = false;
+          return this.reload(queuedForce);
+        });
+    }
+    return this.queuedReload;
+  }
+
+  private async performReload(force: boolean): Promise<ModelReloadReport> {
+    const report: ModelReloadReport = { loaded: [], unchanged: [], removed: [], failed: [] };
+    const found = new Set<string>();
+
+    for (const { version, path, duplicateOf } of this.scanDirectory()) {
+      if (duplicateOf) {
+        const error = `Version ${version} is already provided by ${duplicateOf}`;
+        logger.warn(`Skipping model directory ${path}: ${error}`);
+        report.failed.push({ version, error });
+        continue;
+      }
+
+      found.add(version);
+      const current = this.models.get(version);
+
+      if (!force && current && current.path === path && current.fingerprint >= directoryFingerprint(path)) {
+        report.unchanged.push(version);
+        continue;
+      }
+
+      try {
+        await this.load(version, path);
+        report.loaded.push(version);
+      } catch (error) {
+        logger.warn(`Failed to load model version ${version} from ${path}:`, error);
+        report.failed.push({ version, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    // Versions whose directory disappeared stop serving new requests
+    for (const entry of Array.from(this.models.values())) {
+      if (entry.path.startsWith(this.config.directory) && !found.has(entry.version)) {
+        this.models.delete(entry.version);
+        this.retire(entry);
+        report.removed.push(entry.version);
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * Version directories, by name. When several declare the same version the
+   * first keeps it and the rest are marked with `duplicateOf`, so they neither
+   * replace it nor get reloaded on every rescan.
+   */
+  private scanDirectory(): Array<{ version: string; path: string; duplicateOf?: string }> {
+    const root = this.config.directory;
+    if (!existsSync(root)) {
+      return [];
+    }
+
+    const owners = new Map<string, string>();
+    return readdirSync(root, { withFileTypes: true })
+      .filter(entry => entry.isDirectory() && existsSync(join(root, entry.name, 'model.json')))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(entry => {
+        const path = join(root, entry.name);
+        const metadata = readMetadata(path);
+        const version = typeof metadata.version === 'string'
+          ? metadata.version
+          : entry.name === LEGACY_MODEL_DIR ? LEGACY_MODEL_VERSION : entry.name;
+
+        const owner = owners.get(version);
+        if (owner) {
+          return { version, path, duplicateOf: owner };
+        }
+        owners.set(version, path);
+        return { version, path };
+      });
+  }
+
+  /**
+   * Load, validate and swap in a single model directory under the given version
+   */
+  async load(version: string, path: string): Promise<LoadedModel> {
+    const fingerprint = directoryFingerprint(path);
+    const modelUrl = toModelUrl(path);
+    const network = await tf.loadLayersModel(modelUrl);
+
+    try {
+      smokeTest(network);
+    } catch (error) {
+      network.dispose();
+      throw new ModelError(
+        `Model ${version} failed smoke inference: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const featureStats = FeatureImputer.loadStats(modelUrl);
+    const datasetStatsPath = join(this.config.directory, DATASET_STATS_FILENAME);
+    if (!featureStats && !(await FeatureImputer.prepareDatasetStats(datasetStatsPath))) {
+      logger.warn(`Model ${version} has no feature statistics; partial tracks fail until the dataset can be read`);
+    }
+
+    const entry: LoadedModel = {
+      version,
+      path,
+      network,
+      uncertainty: new UncertaintyEstimator(
+        network,
+        this.confidencePasses,
+        UncertaintyEstimator.loadCalibration(modelUrl)
+      ),
+      embeddings: this.createEmbeddingExtractor(version, network),
+      imputer: new FeatureImputer(featureStats),
+      loadedAt: new Date(),
+      metadata: readMetadata(path),
+      fingerprint,
+      inFlight: 0,
+      retired: false
+    };
+
+    const previous = this.models.get(version);
+    this.models.set(version, entry);
+    if (previous) {
+      this.retire(previous);
+    }
+
+    logger.info(`Model ${version} loaded from ${path}`);
+    return entry;
+  }
+
+  private createEmbeddingExtractor(version: string, network: tf.LayersModel): EmbeddingExtractor | null {
+    try {
+      return new EmbeddingExtractor(network, this.embedDim);
+    } catch (error) {
+      logger.warn(`Embeddings disabled for model ${version}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Get a model by version, falling back to the configured default
+   */
+  get(version?: string): LoadedModel {
+    if (this.models.size === 0) {
+      throw new ModelNotLoadedError();
+    }
+
+    const requested = version || this.getDefaultVersion();
+    const entry = this.models.get(requested);
+    if (!entry) {
+      throw new ModelNotFoundError(
+        `Unknown model version '${requested}'. Available: ${Array.from(this.models.keys()).join(', ')}`
+      );
+    }
+    return entry;
+  }
+
+  /**
+   * Get a model for inference; pair every call with release()
+   */
+  acquire(version?: string): LoadedModel {
+    const entry = this.get(version);
+    entry.inFlight++;
+    return entry;
+  }
+
+  release(entry: LoadedModel): void {
+    entry.inFlight--;
+    if (entry.retired && entry.inFlight === 0) {
+      this.dispose(entry);
+    }
+  }
+
+  private retire(entry: LoadedModel): void {
+    entry.retired = true;
+    if (entry.inFlight === 0) {
+      this.dispose(entry);
+    }
+  }
+
+  private dispose(entry: LoadedModel): void {
+    entry.embeddings?.dispose();
+    entry.network.dispose();
+    logger.info(`Disposed retired model ${entry.version} loaded at ${entry.loadedAt.toISOString()}`);
+  }
+
+  /**
+   * The configured default if loaded, otherwise the newest loaded version
+   */
+  getDefaultVersion(): string {
+    if (this.models.has(this.config.defaultVersion)) {
+      return this.config.defaultVersion;
+    }
+
+    const newest = Array.from(this.models.values())
+      .sort((a, b) => b.loadedAt.getTime() - a.loadedAt.getTime())[0];
+    return newest ? newest.version : this.config.defaultVersion;
+  }
+
+  list(): ModelVersionInfo[] {
+    const defaultVersion = this.getDefaultVersion();
+    return Array.from(this.models.values()).map(entry => ({
+      version: entry.version,
+      path: entry.path,
+      is_default: entry.version === defaultVersion,
+      loaded_at: entry.loadedAt,
+      embedding_dim: entry.embeddings?.getDimension() ?? null,
+      metadata: entry.metadata
+    }));
+  }
+
+  size(): number {
+    return this.models.size;
+  }
+
+  /**
+   * Watch the models directory and reload after changes settle
+   */
+  watch(): void {
+    this.stopWatching();
+    this.watchEnabled = true;
+    this.refreshWatchers();
+    logger.info(`Watching ${this.config.directory} for model changes`);
+  }
+
+  stopWatching(): void {
+    this.watchEnabled = false;
+    this.watchers.forEach(watcher => watcher.close());
+    this.watchers = [];
+  }
+
+  /**
+   * fs.watch is not recursive on Linux, so watch the root plus each version directory
+   */
+  private refreshWatchers(): void {
+    if (!this.watchEnabled || !existsSync(this.config.directory)) {
+      return;
+    }
+
+    this.watchers.forEach(watcher => watcher.close());
+    const dirs = [this.config.directory, ...this.scanDirectory().map(entry => entry.path)];
+    this.watchers = [];
+    dirs.forEach(dir => {
+      // A directory removed since the scan throws here; the root watcher has
+      // seen the removal and rescans anyway
+      try {
+        this.watchers.push(watch(dir, () => this.scheduleReload())
+          .on('error', error => {
+            logger.warn(`Model directory watcher for ${dir} failed: ${error.message}`);
+            this.scheduleReload();
+          }));
+      } catch (error) {
+        logger.warn(`Cannot watch model directory ${dir}:`, error);
+      }
+    });
+  }
+}
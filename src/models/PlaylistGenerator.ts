@@ -0,0 +1,241 @@
+import { LoadedModel, ModelRegistry } from '@/models/ModelRegistry';
+import { InferenceScheduler } from '@/models/InferenceScheduler';
+import {
+  GeneratedPlaylist,
+  PlaylistStep,
+  PlaylistStrategy,
+  TrackFeatures,
+  TrackPrediction,
+  TrajectoryPoint,
+  TransitionWeights,
+  ValidationError
+} from '@/types';
+import { featuresToVector } from '@/utils/normalization';
+import { PREDICTION_OUTPUTS, toTrackPredictions } from '@/utils/predictions';
+import { trajectoryDeviation } from '@/utils/trajectory';
+import { DEFAULT_TRANSITION_WEIGHTS, scoreTransition } from '@/utils/transitions';
+
+/**
+ * Candidate with features already normalized into model space
+ */
+export interface PoolTrack {
+  id: string;
+  name?: string;
+  artist: string;
+  features: TrackFeatures;
+}
+
+export interface PlaylistOptions {
+  strategy: PlaylistStrategy;
+  beamWidth: number;
+  artistSeparation: number;
+  modelVersion?: string;
+  // Per-slot targets; when set, each pick trades curve fit against smoothness
+  curve?: TrajectoryPoint[];
+  smoothnessWeight?: number;
+  // Penalty weight for poor key/tempo/mood mixes from the previous track; 0 disables
+  transitionWeight?: number;
+  transitionWeights?: TransitionWeights;
+}
+
+interface Beam {
+  // Indices into the candidate pool, in play order
+  picks: number[];
+  steps: PlaylistStep[];
+  cost: number;
+}
+
+const DEFAULT_SMOOTHNESS_WEIGHT = 0.5;
+
+/**
+ * Euclidean distance between two predictions over the model outputs
+ */
+const predictionDistance = (a: TrackPrediction, b: TrackPrediction): number => {
+  return Math.sqrt(PREDICTION_OUTPUTS.reduce((sum, output) => sum + Math.pow(a[output] - b[output], 2), 0));
+};
+
+const toPrediction = (features: TrackFeatures): TrackPrediction => ({
+  valence: features.valence,
+  energy: features.energy,
+  danceability: features.danceability
+});
+
+/**
+ * Builds playlists by feeding the model its own picks.
+ * Each step predicts the next track from the seeds plus everything chosen so
+ * far, then picks the candidates closest to that prediction. Greedy search is
+ * a beam of width 1; wider beams keep the best partial playlists by total
+ * distance so one good-looking pick can't force a poor run afterwards.
+ *
+ * With a target curve, a pick's cost blends its distance from the curve at that
+ * slot with its distance from the model's prediction, which keeps transitions
+ * smooth while the set follows the shape. Transition scoring, when enabled,
+ * adds a penalty for picks that mix poorly out of the previous track.
+ */
+export class PlaylistGenerator {
+  private registry: ModelRegistry;
+  private scheduler: InferenceScheduler;
+
+  constructor(registry: ModelRegistry, scheduler: InferenceScheduler) {
+    this.registry = registry;
+    this.scheduler = scheduler;
+  }
+
+  async generate(
+    seeds: TrackFeatures[],
+    pool: PoolTrack[],
+    length: number,
+    options: PlaylistOptions
+  ): Promise<GeneratedPlaylist> {
+    if (seeds.length === 0 && !options.curve) {
+      throw new ValidationError('At least one seed track is required');
+    }
+
+    const beamWidth = options.strategy === 'greedy' ? 1 : options.beamWidth;
+    const seedVectors = seeds.map(featuresToVector);
+    const poolVectors = pool.map(track => featuresToVector(track.features));
+    const poolActuals = pool.map(track => toPrediction(track.features));
+
+    const entry = this.registry.acquire(options.modelVersion);
+    try {
+      let beams: Beam[] = [{ picks: [], steps: [], cost: 0 }];
+      let exhausted = false;
+
+      for (let position = 0; position < length; position++) {
+        // Every beam is submitted together so the scheduler runs them as one batch
+        const predictions = await Promise.all(beams.map(beam =>
+          this.predictNext(entry, seedVectors.concat(beam.picks.map(index => poolVectors[index])))
+        ));
+
+        const expanded: Beam[] = [];
+        beams.forEach((beam, b) => {
+          const predicted = predictions[b];
+          const previous = beam.picks.length > 0
+            ? pool[beam.picks[beam.picks.length - 1]].features
+            : seeds[seeds.length - 1] || null;
+          const scored = this.eligible(beam, pool, options.artistSeparation)
+            .map(index => ({
+              index,
+              ...this.scoreStep(position, predicted, previous, pool[index], poolActuals[index], options)
+            }))
+            .sort((x, y) => x.cost - y.cost)
+            .slice(0, beamWidth);
+
+          scored.forEach(({ index, step, cost }) => {
+            expanded.push({
+              picks: beam.picks.concat(index),
+              steps: beam.steps.concat(step),
+              cost: beam.cost + cost
+            });
+          });
+        });
+
+        if (expanded.length === 0) {
+          exhausted = true;
+          break;
+        }
+        beams = expanded.sort((x, y) => x.cost - y.cost).slice(0, beamWidth);
+      }
+
+      const best = beams[0];
+      const playlist: GeneratedPlaylist = {
+        tracks: best.steps,
+        strategy: options.strategy,
+        beam_width: beamWidth,
+        total_distance: best.steps.reduce((sum, step) => sum + (step.distance ?? 0), 0),
+        exhausted,
+        model_version: entry.version
+      };
+
+      if (options.curve) {
+        const deviations = best.steps.map(step => step.deviation?.distance ?? 0);
+        playlist.deviation = {
+          mean: deviations.length > 0 ? deviations.reduce((sum, d) => sum + d, 0) / deviations.length : 0,
+          max: deviations.length > 0 ? Math.max(...deviations) : 0
+        };
+      }
+
+      return playlist;
+    } finally {
+      this.registry.release(entry);
+    }
+  }
+
+  /**
+   * Cost of placing a candidate at a position, with the step it would produce
+   */
+  private scoreStep(
+    position: number,
+    predicted: TrackPrediction | null,
+    previous: TrackFeatures | null,
+    track: PoolTrack,
+    actual: TrackPrediction,
+    options: PlaylistOptions
+  ): { step: PlaylistStep; cost: number } {
+    const distance = predicted ? predictionDistance(predicted, actual) : null;
+    const step: PlaylistStep = {
+      position,
+      id: track.id,
+      name: track.name,
+      artist: track.artist,
+      predicted,
+      actual,
+      distance
+    };
+
+    let cost = distance ?? 0;
+    const target = options.curve?.[position];
+    if (target) {
+      const weight = options.smoothnessWeight ?? DEFAULT_SMOOTHNESS_WEIGHT;
+      step.target = target;
+      step.deviation = trajectoryDeviation(actual, target);
+      cost = (1 - weight) * step.deviation.distance + weight * (distance ?? 0);
+    }
+
+    const transitionWeight = options.transitionWeight ?? 0;
+    if (transitionWeight > 0 && previous) {
+      step.transition = scoreTransition(
+        previous,
+        track.features,
+        options.transitionWeights || DEFAULT_TRANSITION_WEIGHTS,
+        { from: position - 1, to: position }
+      );
+      cost += transitionWeight * (1 - step.transition.score);
+    }
+
+    return { step, cost };
+  }
+
+  /**
+   * The model's prediction for the track after the given history, or null without history.
+   * The model scores rows independently, so only the last track is submitted.
+   */
+  private async predictNext(entry: LoadedModel, history: number[][]): Promise<TrackPrediction | null> {
+    if (history.length === 0) {
+      return null;
+    }
+
+    const inference = await this.scheduler.submit(entry, history.slice(-1));
+    return toTrackPredictions(inference.values, 1)[0];
+  }
+
+  /**
+   * Unused candidates whose artist isn't among the last `separation` picks
+   */
+  private eligible(beam: Beam, pool: PoolTrack[], separation: number): number[] {
+    const used = new Set(beam.picks);
+    const recentArtists = new Set(
+      separation > 0
+        ? beam.picks.slice(-separation).map(index => pool[index].artist.toLowerCase())
+        : []
+    );
+
+    const indices: number[] = [];
+    pool.forEach((track, index) => {
+      if (!used.has(index) && !recentArtists.has(track.artist.toLowerCase())) {
+        indices.push(index);
+      }
+    });
+    return indices;
+  }
+}
@@ -0,0 +1,178 @@
+import { LoadedModel, ModelRegistry } from '@/models/ModelRegistry';
+import { InferenceScheduler, RawInference } from '@/models/InferenceScheduler';
+import { scoreConfidence } from '@/models/UncertaintyEstimator';
+import {
+  AnalysisConfig,
+  AnalysisResult,
+  AnalyzeRequest,
+  ImputedTrack,
+  ModelError,
+  ModelPredictions,
+  TrackFeatures,
+  ValidationError
+} from '@/types';
+import { generateInsights, generateRecommendations } from '@/utils/insights';
+import { featuresToVector } from '@/utils/normalization';
+import {
+  aggregatePredictions,
+  predictionSpread,
+  recencyWeights,
+  toTrackPredictions
+} from '@/utils/predictions';
+
+export interface AnalysisJob {
+  // Missing features are imputed from the model's training statistics
+  tracks: Array<Partial<TrackFeatures>>;
+  options?: AnalyzeRequest['options'];
+}
+
+/**
+ * Runs the model over one or many listening sessions.
+ * Inference goes through the shared scheduler, which packs sessions from this
+ * and any concurrent call into batched forward passes.
+ */
+export class SessionAnalyzer {
+  private registry: ModelRegistry;
+  private scheduler: InferenceScheduler;
+  private config: AnalysisConfig;
+
+  constructor(registry: ModelRegistry, scheduler: InferenceScheduler, config: AnalysisConfig) {
+    this.registry = registry;
+    this.scheduler = scheduler;
+    this.config = config;
+  }
+
+  /**
+   * Analyze a single session, throwing on failure
+   */
+  async analyze(tracks: AnalysisJob['tracks'], options: AnalyzeRequest['options'] = {}): Promise<AnalysisResult> {
+    const [result] = await this.analyzeMany([{ tracks, options }]);
+    if (result instanceof Error) {
+      throw result;
+    }
+    return result;
+  }
+
+  /**
+   * Analyze many sessions; each slot holds its own result or its own error
+   */
+  async analyzeMany(jobs: AnalysisJob[]): Promise<Array<AnalysisResult | Error>> {
+    // Every job is submitted in the same tick so the scheduler can pack them together
+    return Promise.all(jobs.map(job => this.runJob(job).catch(error =>
+      error instanceof Error ? error : new ModelError(String(error))
+    )));
+  }
+
+  private async runJob(job: AnalysisJob): Promise<AnalysisResult> {
+    if (job.tracks.length === 0) {
+      throw new ValidationError('No tracks provided for analysis');
+    }
+
+    // Hold the model so a concurrent reload cannot dispose it mid-request
+    const entry = this.registry.acquire(job.options?.model_version);
+    try {
+      if (job.options?.include_embeddings && !entry.embeddings) {
+        throw new ModelError(`Embeddings are unavailable for model ${entry.version}`);
+      }
+
+      const { tracks, imputed } = entry.imputer.complete(job.tracks);
+      const inference = await this.scheduler.submit(
+        entry,
+        tracks.map(featuresToVector),
+        job.options?.include_embeddings === true,
+        true
+      );
+      return this.buildResult(entry, tracks, job.options || {}, inference, imputed);
+    } finally {
+      this.registry.release(entry);
+    }
+  }
+
+  private buildResult(
+    entry: LoadedModel,
+    tracks: TrackFeatures[],
+    options: NonNullable<AnalysisJob['options']>,
+    inference: RawInference,
+    imputed: ImputedTrack[]
+  ): AnalysisResult {
+    // Our model outputs [valence, energy, danceability] for each track
+    const trackPredictions = toTrackPredictions(inference.values, tracks.length);
+    const halfLife = this.config.recencyHalfLife;
+    const session = aggregatePredictions(trackPredictions, halfLife);
+    const next = trackPredictions[trackPredictions.length - 1];
+
+    // Uncertainty from MC dropout passes plus spread across the session window
+    const weights = recencyWeights(tracks.length, halfLife);
+    const confidence = scoreConfidence(
+      { mean: [], std: inference.std },
+      weights,
+      predictionSpread(trackPredictions, halfLife),
+      entry.uncertainty.getCalibration()
+    );
+
+    // Imputed inputs carry less information, so confidence is discounted by
+    // how much of the input variance they leave unexplained
+    const loss = new Array<number>(tracks.length).fill(0);
+    imputed.forEach(track => {
+      loss[track.index] = track.information_loss;
+    });
+    const confidenceFactor = {
+      mood: 1 - weights.reduce((sum, weight, i) => sum + weight * loss[i], 0),
+      next_track: 1 - loss[loss.length - 1]
+    };
+
+    const predictions: ModelPredictions = {
+      mood_prediction: {
+        valence: session.valence,
+        energy: session.energy,
+        arousal: session.danceability
+      },
+      next_track_prediction: {
+        valence: next.valence,
+        energy: next.energy,
+        danceability: next.danceability
+      },
+      confidence_scores: {
+        mood: confidence.mood * confidenceFactor.mood,
+        next_track: confidence.next_track * confidenceFactor.next_track
+      },
+      uncertainty: {
+        mood_std: confidence.mood_sigma,
+        next_track_std: confidence.next_track_sigma,
+        method: 'mc_dropout+session_spread'
+      },
+      track_predictions: trackPredictions,
+      session_prediction: { ...session, recency_half_life: halfLife }
+    };
+
+    if (inference.embedding) {
+      predictions.pattern_embedding = inference.embedding;
+    }
+
+    const result: AnalysisResult = {
+      predictions,
+      metadata: {
+        tracks_analyzed: tracks.length,
+        analysis_timestamp: new Date(),
+        model_version: entry.version
+      }
+    };
+
+    if (imputed.length > 0) {
+      result.imputation = {
+        method: 'conditional_gaussian',
+        stats_source: entry.imputer.getSource(),
+        tracks: imputed,
+        confidence_factor: confidenceFactor
+      };
+    }
+
+    // Insights default to on; skip the extra work when the client opts out
+    if (options.include_insights !== false) {
+      result.insights = generateInsights(tracks, predictions);
+      result.recommendations = generateRecommendations(tracks, predictions);
+    }
+
+    return result;
+  }
+}
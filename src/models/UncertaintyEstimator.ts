@@ -0,0 +1,153 @@
+import * as tf from '@tensorflow/tfjs-node';
+import { existsSync, readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { erf } from '@/utils/helpers';
+import { logger } from '@/utils/logger';
+
+/**
+ * Calibration written next to the model by the CSV trainer
+ */
+export interface CalibrationProfile {
+  // Multiplier that turns raw MC dropout std into a calibrated error std
+  sigmaScale: number;
+  // Absolute error that still counts as a correct prediction
+  tolerance: number;
+  samples: number;
+  coverage?: {
+    within_1_sigma: number;
+    within_2_sigma: number;
+  };
+  expected_calibration_error?: number;
+  created_at?: string;
+}
+
+export interface UncertaintyEstimate {
+  // Per-row mean prediction across dropout passes
+  mean: number[][];
+  // Per-row std across dropout passes, one value per output
+  std: number[][];
+}
+
+export const CALIBRATION_FILENAME = 'calibration.json';
+
+export const DEFAULT_CALIBRATION: CalibrationProfile = {
+  sigmaScale: 1,
+  tolerance: 0.1,
+  samples: 0
+};
+
+/**
+ * Monte Carlo dropout uncertainty for the next-track model.
+ * Runs the network several times with dropout active and measures the spread.
+ */
+export class UncertaintyEstimator {
+  private network: tf.LayersModel;
+  private passes: number;
+  private calibration: CalibrationProfile;
+
+  constructor(network: tf.LayersModel, passes: number, calibration?: CalibrationProfile) {
+    this.network = network;
+    this.passes = Math.max(passes, 2);
+    this.calibration = calibration || DEFAULT_CALIBRATION;
+  }
+
+  /**
+   * Run `passes` stochastic forward passes over a [n, inputDim] batch
+   */
+  estimate(input: tf.Tensor2D): UncertaintyEstimate {
+    const [mean, std] = tf.tidy(() => {
+      const samples = tf.stack(
+        Array.from({ length: this.passes }, () =>
+          this.network.apply(input, { training: true }) as tf.Tensor
+        )
+      );
+      const moments = tf.moments(samples, 0);
+      return [moments.mean, tf.sqrt(moments.variance)];
+    });
+
+    try {
+      return {
+        mean: mean.arraySync() as number[][],
+        std: std.arraySync() as number[][]
+      };
+    } finally {
+      mean.dispose();
+      std.dispose();
+    }
+  }
+
+  getCalibration(): CalibrationProfile {
+    return this.calibration;
+  }
+
+  /**
+   * Load the calibration profile stored beside a model.json, if any
+   */
+  static loadCalibration(modelUrl: string): CalibrationProfile | undefined {
+    const path = join(dirname(modelUrl.replace(/^file:\/\//, '')), CALIBRATION_FILENAME);
+    if (!existsSync(path)) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(readFileSync(path, 'utf-8')) as CalibrationProfile;
+    } catch (error) {
+      logger.warn(`Ignoring unreadable calibration file ${path}:`, error);
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Root-mean-square of a row of per-output values
+ */
+export const rms = (values: number[]): number => {
+  return Math.sqrt(values.reduce((sum, v) => sum + v * v, 0) / values.length);
+};
+
+/**
+ * Probability that the true value lies within the tolerance,
+ * assuming Gaussian error with the given (calibrated) std
+ */
+export const confidenceFromSigma = (sigma: number, tolerance: number): number => {
+  if (sigma <= 0) {
+    return 1;
+  }
+  return erf(tolerance / (sigma * Math.SQRT2));
+};
+
+/**
+ * Combine dropout std and session spread into mood and next-track confidence.
+ * The session aggregate's dropout std propagates through the recency weights;
+ * the next-track std is the dropout std of the last row. Only the dropout part
+ * is rescaled by the calibration; the spread of per-track predictions across
+ * the window is added on top so erratic sessions score lower.
+ */
+export const scoreConfidence = (
+  estimate: UncertaintyEstimate | null,
+  weights: number[],
+  sessionSpread: number,
+  calibration: CalibrationProfile = DEFAULT_CALIBRATION
+): { mood: number; next_track: number; mood_sigma: number; next_track_sigma: number } => {
+  let moodDropoutSigma = 0;
+  let nextDropoutSigma = 0;
+
+  if (estimate && estimate.std.length > 0) {
+    const outputs = estimate.std[0].length;
+    const aggregateStd = Array.from({ length: outputs }, (_, o) =>
+      Math.sqrt(estimate.std.reduce((sum, row, i) => sum + Math.pow(weights[i] * row[o], 2), 0))
+    );
+    moodDropoutSigma = rms(aggregateStd);
+    nextDropoutSigma = rms(estimate.std[estimate.std.length - 1]);
+  }
+
+  const moodSigma = Math.hypot(moodDropoutSigma * calibration.sigmaScale, sessionSpread);
+  const nextSigma = Math.hypot(nextDropoutSigma * calibration.sigmaScale, sessionSpread);
+
+  return {
+    mood: confidenceFromSigma(moodSigma, calibration.tolerance),
+    next_track: confidenceFromSigma(nextSigma, calibration.tolerance),
+    mood_sigma: moodSigma,
+    next_track_sigma: nextSigma
+  };
+};
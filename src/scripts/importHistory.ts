@@ -0,0 +1,135 @@
+#!/usr/bin/env node
+
+import { HistoryImporter, HistoryImportOptions } from '@/data/HistoryImporter';
+import { LastfmHistoryImporter } from '@/data/LastfmHistoryImporter';
+import { ListenBrainzHistoryImporter } from '@/data/ListenBrainzHistoryImporter';
+import { SpotifyHistoryImporter } from '@/data/SpotifyHistoryImporter';
+import { TrackCatalog } from '@/data/TrackCatalog';
+import { catalogConfig, importsConfig } from '@/config';
+import { HistorySource } from '@/types';
+import { logger } from '@/utils/logger';
+import { createReadStream, writeFileSync } from 'fs';
+import { extname } from 'path';
+
+/**
+ * LISTENING HISTORY IMPORT
+ * Turns Spotify extended streaming history, Last.fm scrobble dumps or
+ * ListenBrainz exports into feature-joined listening sessions that can be
+ * used as training data
+ */
+
+interface ImportConfig {
+  source: HistorySource;
+  files: string[];
+  catalog: string; // 'csv' or a path to a JSON catalog
+  gapMinutes: number;
+  utcOffsetMinutes: number;
+  out?: string; // Writes the sessions as JSON
+}
+
+const createImporter = (
+  source: HistorySource,
+  catalog: TrackCatalog,
+  options: HistoryImportOptions
+): HistoryImporter => {
+  switch (source) {
+    case 'lastfm':
+      return new LastfmHistoryImporter(catalog, { ...options, format: 'json' });
+    case 'listenbrainz':
+      return new ListenBrainzHistoryImporter(catalog, options);
+    case 'spotify':
+      return new SpotifyHistoryImporter(catalog, options);
+    default:
+      throw new Error(`Unknown source: ${source}`);
+  }
+};
+
+/**
+ * Main execution
+ */
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+
+  // Parse command line arguments
+  const config: ImportConfig = {
+    source: 'spotify',
+    files: [],
+    catalog: catalogConfig.source === 'json' ? catalogConfig.path : 'csv',
+    gapMinutes: 30,
+    utcOffsetMinutes: 0
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--source':
+        config.source = args[++i] as HistorySource;
+        break;
+      case '--catalog':
+        config.catalog = args[++i];
+        break;
+      case '--gap-minutes':
+        config.gapMinutes = parseFloat(args[++i]) || 30;
+        break;
+      case '--utc-offset':
+        config.utcOffsetMinutes = parseInt(args[++i]) || 0;
+        break;
+      case '--out':
+        config.out = args[++i];
+        break;
+      default:
+        config.files.push(args[i]);
+    }
+  }
+
+  if (config.files.length === 0) {
+    throw new Error('Usage: importHistory <files...> [--source spotify|lastfm|listenbrainz] [--catalog csv|<path>] [--gap-minutes n] [--utc-offset n] [--out sessions.json]');
+  }
+
+  const catalog = config.catalog === 'csv'
+    ? TrackCatalog.fromCSV(catalogConfig.maxTracks)
+    : TrackCatalog.fromJSON(config.catalog, catalogConfig.maxTracks);
+  logger.info(`📚 Catalog loaded: ${catalog.size()} tracks from ${catalog.getSource()}`);
+
+  const options: HistoryImportOptions = {
+    gapMs: config.gapMinutes * 60000,
+    utcOffsetMinutes: config.utcOffsetMinutes,
+    maxBytes: importsConfig.maxBytes,
+    minMatchScore: importsConfig.minMatchScore
+  };
+
+  const importer = createImporter(config.source, catalog, options);
+  for (const file of config.files) {
+    const stream = createReadStream(file);
+    const records = importer instanceof LastfmHistoryImporter
+      ? await importer.ingest(stream, extname(file).toLowerCase() === '.csv' ? 'csv' : 'json')
+      : await importer.ingest(stream);
+    logger.info(`📄 ${file}: ${records} records`);
+  }
+
+  const { sessions, report } = importer.build();
+
+  logger.info('\n📊 Import summary:');
+  logger.info(`• Records: ${report.records} (${report.skipped_records} without a track)`);
+  logger.info(`• Track plays matched: ${report.matched}/${report.track_plays} (${report.matched_by_id} by ID, ${report.matched_by_name} by artist/title)`);
+  if (report.invalid_features > 0) {
+    logger.warn(`• Plays dropped for unusable catalog features: ${report.invalid_features}`);
+  }
+  logger.info(`• Sessions: ${report.sessions}`);
+  report.unmatched_tracks.slice(0, 10).forEach(track => {
+    const closest = track.closest ? `, closest: ${track.closest.artist} - ${track.closest.name} @ ${track.closest.score.toFixed(2)}` : '';
+    logger.info(`  ✗ ${track.artist} - ${track.name} (${track.plays} plays${closest})`);
+  });
+
+  if (config.out) {
+    writeFileSync(config.out, JSON.stringify(sessions, null, 2));
+    logger.info(`💾 Sessions written to: ${config.out}`);
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main().catch(error => {
+    logger.error('❌ Import script failed:', error);
+    process.exit(1);
+  });
+}
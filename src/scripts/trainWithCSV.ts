@@ -3,10 +3,22 @@
 import { CSVDataLoader } from '@/data/CSVDataLoader';
 import { DataProcessor } from '@/data/DataProcessor';
 import { SimpleSpotifyModel } from '@/models/SimpleModel';
+import {
+  CALIBRATION_FILENAME,
+  CalibrationProfile,
+  UncertaintyEstimator,
+  confidenceFromSigma,
+  rms
+} from '@/models/UncertaintyEstimator';
+import { METADATA_FILENAME } from '@/models/ModelRegistry';
+import { FEATURE_STATS_FILENAME, FeatureStats, computeFeatureStats } from '@/models/FeatureImputer';
 import { logger } from '@/utils/logger';
+import { featuresToVector, normalizeSpotifyFeatures } from '@/utils/normalization';
+import { mean } from '@/utils/helpers';
+import { SpotifyAudioFeatures, Track } from '@/types';
 // Removed debug logger - using basic logger only
 import { join } from 'path';
-import { existsSync, mkdirSync } from 'fs';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
 import * as tf from '@tensorflow/tfjs-node';
 
 /**
@@ -20,6 +32,9 @@ interface TrainingConfig {
   learningRate: number;
   validationSplit: number;
   sampleSize: number; // For faster training during development
+  calibrationPasses: number; // MC dropout passes for the confidence calibration check
+  calibrationTolerance: number; // Absolute error that counts as a correct prediction
+  modelVersion?: string; // Saves to models/<version>/ instead of the legacy models/listening_analyzer/
 }
 
 class CSVTrainer {
@@ -27,6 +42,8 @@ class CSVTrainer {
   private dataProcessor: DataProcessor;
   private model: SimpleSpotifyModel;
   private config: TrainingConfig;
+  private heldOut: { inputs: number[][]; labels: number[][] } | null = null;
+  private featureStats: FeatureStats | null = null;
 
   constructor(config: Partial<TrainingConfig> = {}) {
     this.config = {
@@ -35,6 +52,8 @@ class CSVTrainer {
       learningRate: 0.001,
       validationSplit: 0.2,
       sampleSize: 5000, // Start with 5k tracks for faster training
+      calibrationPasses: 30,
+      calibrationTolerance: 0.1,
       ...config
     };
 
@@ -65,8 +84,11 @@ class CSVTrainer {
       // Step 5: Save the trained model
       await this.saveModel();
       
-      // Step 6: Generate training report
-      this.generateReport(history);
+      // Step 6: Calibrate confidence scores on the held-out split
+      const calibration = await this.calibrateConfidence();
+      
+      // Step 7: Generate training report
+      this.generateReport(history, calibration);
       
       logger.info('🎉 Training completed successfully!');
       
@@ -128,8 +150,11 @@ class CSVTrainer {
         const nextTrack = session.tracks[i + 1];
         
         if (currentTrack.features && nextTrack.features) {
-          // Input: current track features
-          const input = this.trackFeaturesToVector(currentTrack.features);
+          // Input: current track features; tracks without a detected key are skipped
+          const input = this.trackToVector(currentTrack);
+          if (!input.every(Number.isFinite)) {
+            continue;
+          }
           
           // Label: next track's mood features (valence, energy, danceability)
           const label = [
@@ -154,6 +179,15 @@ class CSVTrainer {
     const numValidation = Math.floor(allInputs.length * this.config.validationSplit);
     const numTrain = allInputs.length - numValidation;
     
+    // Keep the held-out rows for the confidence calibration check
+    this.heldOut = {
+      inputs: allInputs.slice(numTrain),
+      labels: allLabels.slice(numTrain)
+    };
+
+    // Input statistics the API imputes missing features from
+    this.featureStats = computeFeatureStats(allInputs.slice(0, numTrain));
+    
     const trainInputs = inputsTensor.slice([0, 0], [numTrain, -1]);
     const trainLabels = labelsTensor.slice([0, 0], [numTrain, -1]);
     
@@ -173,31 +207,11 @@ class CSVTrainer {
   }
 
   /**
-   * Convert track features to input vector
+   * Convert a CSV track to the model input vector using the shared serving normalization
    */
-  private trackFeaturesToVector(features: any): number[] {
-    return [
-      features.danceability || 0,
-      features.energy || 0,
-      features.key || 0,
-      features.loudness || 0,
-      features.mode || 0,
-      features.speechiness || 0,
-      features.acousticness || 0,
-      features.instrumentalness || 0,
-      features.liveness || 0,
-      features.valence || 0,
-      features.tempo / 200.0 || 0, // Normalize tempo
-      features.duration_ms / 300000.0 || 0, // Normalize duration
-      features.time_signature / 7.0 || 0, // Normalize time signature
-      features.hour_of_day || 0,
-      features.day_of_week / 7.0 || 0,
-      features.month / 12.0 || 0,
-      features.is_weekend || 0,
-      features.skip_rate || 0,
-      features.repeat_count / 5.0 || 0,
-      features.playlist_position || 0
-    ];
+  private trackToVector(track: Track): number[] {
+    const features = track.features as SpotifyAudioFeatures;
+    return featuresToVector(normalizeSpotifyFeatures({ ...features, played_at: track.played_at }));
   }
 
   /**
@@ -251,24 +265,130 @@ class CSVTrainer {
    * Save the trained model
    */
   private async saveModel(): Promise<void> {
-    const modelsDir = join(process.cwd(), 'models');
+    const modelDir = this.getModelDir();
     
-    if (!existsSync(modelsDir)) {
-      mkdirSync(modelsDir, { recursive: true });
+    if (!existsSync(modelDir)) {
+      mkdirSync(modelDir, { recursive: true });
     }
     
-    const modelPath = `file://${modelsDir}/listening_analyzer`;
+    const modelPath = `file://${modelDir}`;
     
     logger.info(`💾 Saving model to: ${modelPath}`);
     await this.model.save(modelPath);
     
+    // Metadata read by the API's model registry (GET /models)
+    const metadata = {
+      version: this.config.modelVersion || '1.0.0',
+      trained_at: new Date().toISOString(),
+      sample_size: this.config.sampleSize,
+      epochs: this.config.epochs,
+      batch_size: this.config.batchSize,
+      learning_rate: this.config.learningRate
+    };
+    writeFileSync(join(modelDir, METADATA_FILENAME), JSON.stringify(metadata, null, 2));
+
+    if (this.featureStats) {
+      writeFileSync(join(modelDir, FEATURE_STATS_FILENAME), JSON.stringify(this.featureStats, null, 2));
+    }
+    
     logger.info('✅ Model saved successfully');
   }
 
+  /**
+   * Output directory for this run's model version
+   */
+  private getModelDir(): string {
+    return join(process.cwd(), 'models', this.config.modelVersion || 'listening_analyzer');
+  }
+
+  /**
+   * Calibration check: run MC dropout over the held-out split, fit the scale that
+   * turns dropout std into observed error std, and measure how well the resulting
+   * confidence scores match the observed hit rate. Saved next to the model so the
+   * API serves calibrated confidence.
+   *
+   * Errors are measured around the deterministic prediction, as the API serves.
+   * Each held-out example is a single-track window, whose session spread is 0,
+   * so this calibrates exactly the next-track confidence of a one-track request.
+   * The session-spread term the API adds for longer windows is not calibrated.
+   */
+  private async calibrateConfidence(): Promise<CalibrationProfile | null> {
+    if (!this.heldOut || this.heldOut.inputs.length === 0) {
+      logger.warn('⚠️ No held-out examples, skipping confidence calibration');
+      return null;
+    }
+
+    const { inputs, labels } = this.heldOut;
+    const { calibrationPasses, calibrationTolerance: tolerance } = this.config;
+    logger.info(`🎯 Calibrating confidence on ${inputs.length} held-out examples (${calibrationPasses} passes)...`);
+
+    const modelDir = this.getModelDir();
+    const network = await tf.loadLayersModel(`file://${join(modelDir, 'model.json')}`);
+    const inputTensor = tf.tensor2d(inputs);
+
+    let estimate;
+    let predictions: number[][];
+    try {
+      estimate = new UncertaintyEstimator(network, calibrationPasses).estimate(inputTensor);
+      const predictionTensor = network.predict(inputTensor) as tf.Tensor;
+      predictions = predictionTensor.arraySync() as number[][];
+      predictionTensor.dispose();
+    } finally {
+      inputTensor.dispose();
+      network.dispose();
+    }
+
+    const sigmas = estimate.std.map(rms);
+    const errors = predictions.map((row, i) => rms(row.map((value, o) => value - labels[i][o])));
+
+    // Scale so that error / (scale * sigma) has unit RMS
+    const usable = sigmas.map((sigma, i) => ({ sigma, error: errors[i] })).filter(s => s.sigma > 1e-6);
+    let sigmaScale = 1;
+    if (usable.length === 0) {
+      logger.warn('⚠️ Model has no active dropout; API confidence will rely on session spread only');
+    } else {
+      sigmaScale = Math.sqrt(mean(usable.map(s => Math.pow(s.error / s.sigma, 2))));
+    }
+
+    const within = (k: number) =>
+      errors.filter((error, i) => error <= k * sigmaScale * sigmas[i]).length / errors.length;
+
+    // Expected calibration error over 10 confidence bins
+    const bins = Array.from({ length: 10 }, () => ({ confidence: 0, hits: 0, count: 0 }));
+    sigmas.forEach((sigma, i) => {
+      const confidence = confidenceFromSigma(sigma * sigmaScale, tolerance);
+      const bin = bins[Math.min(Math.floor(confidence * bins.length), bins.length - 1)];
+      bin.confidence += confidence;
+      bin.hits += errors[i] <= tolerance ? 1 : 0;
+      bin.count++;
+    });
+    const expectedCalibrationError = bins.reduce((sum, bin) =>
+      bin.count === 0 ? sum : sum + (bin.count / errors.length) * Math.abs(bin.confidence / bin.count - bin.hits / bin.count),
+      0
+    );
+
+    const calibration: CalibrationProfile = {
+      sigmaScale,
+      tolerance,
+      samples: errors.length,
+      coverage: {
+        within_1_sigma: within(1),
+        within_2_sigma: within(2)
+      },
+      expected_calibration_error: expectedCalibrationError,
+      created_at: new Date().toISOString()
+    };
+
+    writeFileSync(join(modelDir, CALIBRATION_FILENAME), JSON.stringify(calibration, null, 2));
+    logger.info(`✅ Calibration saved to ${join(modelDir, CALIBRATION_FILENAME)}`);
+
+    return calibration;
+  }
+
   /**
    * Generate training report
    */
-  private generateReport(history: any): void {
+  private generateReport(history: any, calibration: CalibrationProfile | null): void {
     logger.info('\n📊 Training Report:');
     logger.info('==================');
     logger.info(`• Dataset: ${this.config.sampleSize} tracks from Spotify CSV`);
@@ -284,7 +404,14 @@ class CSVTrainer {
       logger.info(`• Final validation loss: ${finalValLoss.toFixed(4)}`);
     }
     
-    logger.info(`• Model saved to: models/listening_analyzer/`);
+    if (calibration) {
+      logger.info(`• Confidence sigma scale: ${calibration.sigmaScale.toFixed(3)} (tolerance ${calibration.tolerance})`);
+      logger.info(`• Coverage within 1σ / 2σ: ${(calibration.coverage!.within_1_sigma * 100).toFixed(1)}% / ${(calibration.coverage!.within_2_sigma * 100).toFixed(1)}% (Gaussian: 68.3% / 95.4%)`);
+      logger.info(`• Expected calibration error: ${calibration.expected_calibration_error!.toFixed(4)}`);
+      logger.info('• Calibrated on single-track windows: the session-spread term of longer windows is not calibrated');
+    }
+    
+    logger.info(`• Model saved to: ${this.getModelDir()}`);
     logger.info('\n🚀 Ready for predictions!');
   }
 }
@@ -312,6 +439,15 @@ async function main(): Promise<void> {
       case '--learning-rate':
         config.learningRate = parseFloat(args[++i]) || 0.001;
         break;
+      case '--model-version':
+        config.modelVersion = args[++i];
+        break;
+      case '--calibration-passes':
+        config.calibrationPasses = parseInt(args[++i]) || 30;
+        break;
+      case '--calibration-tolerance':
+        config.calibrationTolerance = parseFloat(args[++i]) || 0.1;
+        break;
     }
   }
   
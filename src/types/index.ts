@@ -39,6 +39,19 @@ export interface Track {
   features?: TrackFeatures | SpotifyAudioFeatures;
 }
 
+// Catalog entry: a Track that isn't tied to a play
+export type CatalogTrack = Omit<Track, 'played_at'>;
+
+// Features in [0, 1] that catalog lookups can match on
+export type CatalogFeature =
+  | 'valence'
+  | 'energy'
+  | 'danceability'
+  | 'acousticness'
+  | 'instrumentalness'
+  | 'speechiness'
+  | 'liveness';
+
 export interface ListeningSession {
   tracks: Track[];
   start_time: Date;
@@ -46,18 +59,102 @@ export interface ListeningSession {
   session_id: string;
 }
 
+export interface TrackPrediction {
+  valence: number;
+  energy: number;
+  danceability: number;
+}
+
+// OAuth grant for one connected Spotify account
+export interface SpotifyCredentials {
+  user_id: string;
+  // API key that started the login; only it may use the connection
+  api_key_id: string;
+  access_token: string;
+  refresh_token: string;
+  scope: string;
+  expires_at: Date;
+  updated_at: Date;
+}
+
+export type ApiKeyScope = 'analyze' | 'admin' | 'training';
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  // SHA-256 of the key; the key itself is only returned once, at creation
+  key_hash: string;
+  // Leading characters of the key, to tell keys apart in listings
+  key_prefix: string;
+  scopes: ApiKeyScope[];
+  // Override the configured defaults; 0 means unlimited
+  hourly_quota?: number;
+  daily_quota?: number;
+  created_at: Date;
+}
+
+export interface QuotaWindowUsage {
+  used: number;
+  // null when the window is unlimited
+  limit: number | null;
+  remaining: number | null;
+  resets_at: Date;
+}
+
+export interface ApiKeyUsage {
+  key_id: string;
+  hour: QuotaWindowUsage;
+  day: QuotaWindowUsage;
+}
+
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+  hourly_quota?: number;
+  daily_quota?: number;
+}
+
+// Server-side listening session built up one play at a time
+export interface StoredSession {
+  session_id: string;
+  // Normalized features, oldest first, capped at the session window
+  tracks: TrackFeatures[];
+  total_plays: number;
+  options: {
+    model_version?: string;
+    include_insights?: boolean;
+  };
+  created_at: Date;
+  updated_at: Date;
+  expires_at: Date;
+}
+
 export interface ModelPredictions {
+  // Recency-weighted session aggregate (arousal maps to danceability)
   mood_prediction: {
     valence: number;
     energy: number;
     arousal: number;
   };
-  pattern_embedding: number[];
+  // Pooled penultimate-layer activations, only present with include_embeddings
+  pattern_embedding?: number[];
+  // Prediction made from the most recent track, i.e. the track after the session
   next_track_prediction: Partial<TrackFeatures>;
+  // Probability that the prediction is within the calibrated tolerance
   confidence_scores: {
     mood: number;
     next_track: number;
   };
+  uncertainty?: {
+    mood_std: number;
+    next_track_std: number;
+    method: 'mc_dropout+session_spread';
+  };
+  // Prediction following each input track, in input order
+  track_predictions?: TrackPrediction[];
+  session_prediction?: TrackPrediction & {
+    recency_half_life: number;
+  };
 }
 
 export interface ListeningInsights {
@@ -68,9 +165,32 @@ export interface ListeningInsights {
   patterns: string[];
 }
 
+export interface ImputedTrack {
+  // Position among the analyzed tracks
+  index: number;
+  fields: Array<keyof TrackFeatures>;
+  // Share of input variance the imputed fields leave unexplained, 0-1
+  information_loss: number;
+}
+
+export interface ImputationSummary {
+  method: 'conditional_gaussian';
+  // Training statistics saved with the model, or sampled from the CSV dataset
+  stats_source: 'model' | 'dataset';
+  tracks: ImputedTrack[];
+  // Factors the confidence scores were multiplied by
+  confidence_factor: {
+    mood: number;
+    next_track: number;
+  };
+}
+
 export interface AnalysisResult {
   predictions: ModelPredictions;
-  insights: ListeningInsights;
+  insights?: ListeningInsights;
+  recommendations?: string[];
+  // Present when any track was sent with missing features
+  imputation?: ImputationSummary;
   metadata: {
     tracks_analyzed: number;
     analysis_timestamp: Date;
@@ -104,19 +224,86 @@ export interface DataConfig {
   minTracksPerSession: number;
 }
 
+export interface AnalysisConfig {
+  recencyHalfLife: number;
+  confidencePasses: number;
+}
+
+export interface SchedulerConfig {
+  windowMs: number;
+  maxBatchRows: number;
+}
+
+export interface RegistryConfig {
+  directory: string;
+  defaultVersion: string;
+  watch: boolean;
+  watchDebounceMs: number;
+}
+
+export interface CatalogConfig {
+  source: 'csv' | 'json' | 'none';
+  // JSON catalog file; the CSV source reads the training dataset
+  path: string;
+  maxTracks: number;
+}
+
+export interface SpotifyConfig {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  accountsBaseUrl: string;
+  apiBaseUrl: string;
+  scopes: string[];
+}
+
+export interface AuthConfig {
+  // Reject anonymous requests to analyze and training routes
+  required: boolean;
+  store: 'memory' | 'file';
+  // API key file for the file store
+  storePath: string;
+  // Default per-key quotas; 0 means unlimited
+  hourlyQuota: number;
+  dailyQuota: number;
+}
+
+export interface RateLimitConfig {
+  enabled: boolean;
+  // Tokens refilled per window, which is also the burst size
+  limit: number;
+  windowMs: number;
+  // Tokens taken by routes missing from routeCosts
+  defaultCost: number;
+  // Keyed by "METHOD /path", with :params as in the route definitions
+  routeCosts: Record<string, number>;
+  // Take the client IP from X-Forwarded-For when behind a proxy
+  trustProxy: boolean;
+}
+
+export interface SessionsConfig {
+  ttlMs: number;
+  maxTracks: number;
+}
+
 export interface AppConfig {
   model: ModelConfig;
+  registry: RegistryConfig;
   training: TrainingConfig;
   data: DataConfig;
-  spotify: {
-    clientId: string;
-    clientSecret: string;
-    redirectUri: string;
-  };
+  analysis: AnalysisConfig;
+  scheduler: SchedulerConfig;
+  sessions: SessionsConfig;
+  catalog: CatalogConfig;
+  imports: ImportsConfig;
+  spotify: SpotifyConfig;
+  auth: AuthConfig;
+  rateLimit: RateLimitConfig;
   api: {
     port: number;
     host: string;
     corsOrigins: string[];
+    adminKey: string;
   };
 }
 
@@ -163,6 +350,183 @@ export interface SpotifyRecentlyPlayed {
   };
 }
 
+export interface SpotifyPlaylist {
+  id: string;
+  name: string;
+  description: string | null;
+  owner: { id: string; display_name?: string };
+  public: boolean | null;
+  snapshot_id: string;
+  tracks: { total: number; href: string };
+  external_urls: { spotify: string };
+}
+
+export interface SpotifyPlaylistItem {
+  added_at: string;
+  // Null for tracks that were removed from Spotify
+  track: SpotifyTrack | null;
+}
+
+// Offset- or cursor-paged list response
+export interface SpotifyPage<T> {
+  items: T[];
+  next: string | null;
+  limit: number;
+  total?: number;
+  offset?: number;
+  cursors?: { after?: string; before?: string };
+}
+
+// Whole-history rollup for a listener
+export interface HistorySummary {
+  total_plays: number;
+  unique_tracks: number;
+  unique_artists: number;
+  first_played_at: Date | null;
+  last_played_at: Date | null;
+  sessions: number;
+  avg_session_tracks: number;
+  avg_session_minutes: number;
+  top_artists: Array<{ artist: string; plays: number }>;
+  // Local-time hour of day, 24 buckets
+  plays_by_hour: number[];
+  avg_features: {
+    valence: number;
+    energy: number;
+    danceability: number;
+    tempo: number;
+  };
+}
+
+export interface HistoryAnalysisQuery {
+  // Pause that starts a new session
+  gap_minutes: number;
+  max_items: number;
+  utc_offset_minutes: number;
+  model_version?: string;
+}
+
+export interface HistoryAnalysis {
+  summary: HistorySummary;
+  // Analysis of the most recent tracks across all sessions
+  overall: AnalysisResult | null;
+  sessions: SessionAnalysisItem[];
+}
+
+// One entry of Spotify's extended streaming history export
+export interface SpotifyStreamingRecord {
+  // Time playback ended, ISO 8601 UTC
+  ts: string;
+  ms_played: number;
+  spotify_track_uri: string | null;
+  master_metadata_track_name: string | null;
+  master_metadata_album_artist_name: string | null;
+  master_metadata_album_album_name: string | null;
+  reason_start?: string | null;
+  reason_end?: string | null;
+  skipped?: boolean | null;
+  shuffle?: boolean | null;
+}
+
+// One scrobble of a Last.fm JSON dump (user.getRecentTracks pages)
+export interface LastfmScrobble {
+  name?: string;
+  artist?: string | { '#text'?: string; name?: string };
+  album?: string | { '#text'?: string };
+  date?: { uts?: string | number };
+  uts?: string | number;
+  timestamp?: string | number;
+  '@attr'?: { nowplaying?: string };
+}
+
+// A page of user.getRecentTracks, as saved by most Last.fm backup tools
+export interface LastfmRecentTracksPage {
+  recenttracks?: { track?: LastfmScrobble[] };
+  track?: LastfmScrobble[];
+}
+
+// One listen of a ListenBrainz export
+export interface ListenBrainzListen {
+  // Unix seconds at playback start
+  listened_at: number;
+  track_metadata?: {
+    artist_name?: string;
+    track_name?: string;
+    release_name?: string;
+    additional_info?: {
+      duration_ms?: number;
+      duration?: number;
+      spotify_id?: string;
+    };
+  };
+}
+
+export type HistorySource = 'spotify' | 'lastfm' | 'listenbrainz';
+
+export interface UnmatchedHistoryTrack {
+  id?: string;
+  name: string;
+  artist: string;
+  plays: number;
+  // Best catalog candidate that scored below the match threshold
+  closest?: { id: string; name: string; artist: string; score: number };
+}
+
+export interface HistoryImportReport {
+  source: HistorySource;
+  records: number;
+  // Music plays; podcast episodes and malformed entries are not counted
+  track_plays: number;
+  matched: number;
+  // Plays matched by Spotify track ID, and by fuzzy artist/title
+  matched_by_id: number;
+  matched_by_name: number;
+  unmatched: number;
+  // Plays matched to a catalog track whose features are incomplete or not finite
+  invalid_features: number;
+  skipped_records: number;
+  sessions: number;
+  // Most-played tracks missing from the catalog
+  unmatched_tracks: UnmatchedHistoryTrack[];
+}
+
+export interface HistoryImport {
+  tracks: Track[];
+  sessions: ListeningSession[];
+  report: HistoryImportReport;
+}
+
+export interface ImportsConfig {
+  maxBytes: number;
+  // Lowest artist/title similarity accepted as a catalog match, 0-1
+  minMatchScore: number;
+}
+
+export interface HistoryImportQuery {
+  gap_minutes: number;
+  utc_offset_minutes: number;
+  // Run the session analysis on the imported history
+  analyze: boolean;
+  // Most recent sessions returned (and analyzed)
+  max_sessions: number;
+  // Last.fm dump format; inferred from Content-Type when omitted
+  format?: 'csv' | 'json';
+  model_version?: string;
+}
+
+export interface SessionAnalysisItem {
+  session_id: string;
+  start_time: Date;
+  end_time: Date;
+  tracks: Array<{ id: string; name: string; artist: string; played_at: Date }>;
+  success: boolean;
+  data?: AnalysisResult;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
 // Training data types
 export interface TrainingExample {
   sequence: number[][];
@@ -190,8 +554,76 @@ export interface TrainingMetrics {
 }
 
 // API request/response types
+
+/**
+ * Raw Spotify audio features as sent by clients, normalized server-side
+ */
+export interface SpotifyTrackInput {
+  danceability: number;
+  energy: number;
+  key: number;
+  loudness: number;
+  mode: number;
+  speechiness: number;
+  acousticness: number;
+  instrumentalness: number;
+  liveness: number;
+  valence: number;
+  tempo: number;
+  duration_ms: number;
+  time_signature: number;
+  played_at: Date | string;
+  utc_offset_minutes?: number;
+  skip_rate?: number;
+  repeat_count?: number;
+  playlist_position?: number;
+}
+
+// One play in a listener's play-event log
+export interface PlayEvent {
+  track_id: string;
+  started_at: Date;
+  // Either one gives the time listened; ended_at also counts pauses
+  ended_at?: Date;
+  ms_played?: number;
+  // Track length, so early skips of short tracks are judged relative to it
+  duration_ms?: number;
+  // Set when the player recorded the skip itself
+  skipped?: boolean;
+  // Playlist, album or other source the play was started from
+  context?: string | null;
+}
+
+// completed: played past the early-skip threshold
+// skipped: cut short within the same context
+// interrupted: cut short by switching to another context
+// restarted: cut short by replaying the same track
+// unknown: no play time to judge by
+export type PlayOutcome = 'completed' | 'skipped' | 'interrupted' | 'restarted' | 'unknown';
+
+export interface PlayBehavior {
+  skip_rate: number;
+  repeat_count: number;
+  playlist_position: number;
+  outcome: PlayOutcome;
+}
+
+export type SpotifyAudioFeaturesInput = Omit<
+  SpotifyTrackInput,
+  'played_at' | 'utc_offset_minutes' | 'skip_rate' | 'repeat_count' | 'playlist_position'
+>;
+
+// A play event with its track's raw audio features, as sent to /analyze
+export interface PlayEventInput extends Omit<PlayEvent, 'duration_ms'> {
+  features: SpotifyAudioFeaturesInput;
+  utc_offset_minutes?: number;
+}
+
 export interface AnalyzeRequest {
-  tracks: TrackFeatures[];
+  // Exactly one of tracks or play_events
+  // Model-space tracks may leave out features; those are imputed
+  tracks?: Array<Partial<TrackFeatures> | SpotifyTrackInput>;
+  play_events?: PlayEventInput[];
   options?: {
     include_insights?: boolean;
     include_embeddings?: boolean;
@@ -199,13 +631,251 @@ export interface AnalyzeRequest {
   };
 }
 
+export interface AnalyzeBatchRequest {
+  sessions: Array<{
+    session_id: string;
+    tracks: unknown[];
+    options?: AnalyzeRequest['options'];
+  }>;
+  options?: AnalyzeRequest['options'];
+}
+
+export interface BatchAnalysisItem {
+  session_id: string;
+  success: boolean;
+  data?: AnalysisResult;
+  error?: ApiError;
+}
+
+export interface CreateSessionRequest {
+  tracks?: Array<TrackFeatures | SpotifyTrackInput>;
+  options?: StoredSession['options'];
+}
+
+export interface AppendTracksRequest {
+  tracks: Array<TrackFeatures | SpotifyTrackInput>;
+}
+
+export interface PlaylistCandidate {
+  id: string;
+  name?: string;
+  artist: string;
+  features: TrackFeatures | SpotifyTrackInput;
+}
+
+export type PlaylistStrategy = 'greedy' | 'beam';
+
+export interface GeneratePlaylistRequest {
+  seed_tracks: Array<TrackFeatures | SpotifyTrackInput>;
+  candidates: PlaylistCandidate[];
+  length: number;
+  options?: {
+    strategy?: PlaylistStrategy;
+    beam_width?: number;
+    // Minimum number of picks between two tracks by the same artist
+    artist_separation?: number;
+    // Penalty for poor key/tempo/mood mixes between consecutive picks
+    transition_weight?: number;
+    transition_weights?: Partial<TransitionWeights>;
+    model_version?: string;
+  };
+}
+
+export interface TransitionWeights {
+  key: number;
+  tempo: number;
+  mood: number;
+}
+
+export interface TransitionScore {
+  from_index: number;
+  to_index: number;
+  // Weighted blend of the parts, 0-1
+  score: number;
+  key: {
+    from: string;
+    to: string;
+    // Camelot codes, e.g. 8A
+    from_camelot: string;
+    to_camelot: string;
+    score: number;
+  };
+  tempo: {
+    from_bpm: number;
+    to_bpm: number;
+    // Ratio after allowing half/double time
+    ratio: number;
+    relation: 'same' | 'half' | 'double';
+    score: number;
+  };
+  mood: {
+    energy_jump: number;
+    valence_jump: number;
+    score: number;
+  };
+}
+
+export interface ScoreTransitionsRequest {
+  tracks: Array<TrackFeatures | SpotifyTrackInput>;
+  weights?: Partial<TransitionWeights>;
+}
+
+export interface TrajectoryPoint {
+  energy: number;
+  valence: number;
+}
+
+export interface TrajectoryBreakpoint extends TrajectoryPoint {
+  // Position along the set, 0 = first slot, 1 = last slot
+  at: number;
+}
+
+export type TrajectoryPreset = 'warmup_peak_cooldown' | 'build_up' | 'wind_down' | 'steady' | 'waves';
+
+export interface PlanTrajectoryRequest {
+  seed_tracks?: Array<TrackFeatures | SpotifyTrackInput>;
+  candidates: PlaylistCandidate[];
+  slots: number;
+  curve: {
+    preset?: TrajectoryPreset;
+    breakpoints?: TrajectoryBreakpoint[];
+  };
+  options?: GeneratePlaylistRequest['options'] & {
+    // 0 follows the curve only, 1 follows the model's predictions only
+    smoothness_weight?: number;
+  };
+}
+
+export interface TrajectoryDeviation {
+  // Signed actual minus target
+  energy: number;
+  valence: number;
+  distance: number;
+}
+
+export interface PlaylistStep {
+  position: number;
+  id: string;
+  name?: string;
+  artist: string;
+  // What the model expected after the previous track; null for an unseeded first slot
+  predicted: TrackPrediction | null;
+  // The chosen candidate's own features
+  actual: TrackPrediction;
+  distance: number | null;
+  // Mix quality from the previous track, only when transition scoring is on
+  transition?: TransitionScore;
+  // Curve target and deviation, only for trajectory plans
+  target?: TrajectoryPoint;
+  deviation?: TrajectoryDeviation;
+}
+
+export interface GeneratedPlaylist {
+  tracks: PlaylistStep[];
+  strategy: PlaylistStrategy;
+  beam_width: number;
+  total_distance: number;
+  // True when constraints ran out of candidates before reaching the target length
+  exhausted: boolean;
+  model_version: string;
+  // Curve fit summary, only for trajectory plans
+  deviation?: {
+    mean: number;
+    max: number;
+  };
+}
+
+export interface RecommendRequest {
+  // Target features; give these or `tracks`, not both
+  features?: Partial<Record<CatalogFeature, number>>;
+  // Session to predict the next track from
+  tracks?: Array<TrackFeatures | SpotifyTrackInput>;
+  k: number;
+  filters?: {
+    exclude_ids?: string[];
+    popularity?: {
+      min?: number;
+      max?: number;
+    };
+  };
+  model_version?: string;
+}
+
+export interface TrackRecommendation {
+  track: CatalogTrack;
+  distance: number;
+}
+
+export interface CatalogMatch {
+  track: CatalogTrack;
+  // Artist/title similarity, 0-1
+  score: number;
+}
+
+export interface EmbedRequest {
+  model_version?: string;
+  sessions: Array<{
+    session_id: string;
+    tracks: Array<TrackFeatures | SpotifyTrackInput>;
+  }>;
+}
+
+export interface SessionEmbedding {
+  session_id: string;
+  embedding: number[];
+}
+
+/**
+ * Error body of every failed response
+ */
+export interface ApiError {
+  // Stable identifier from the error catalog, e.g. VALIDATION_ERROR
+  code: string;
+  message: string;
+  details?: Record<string, unknown>;
+  // Omitted on per-item errors inside a successful batch response
+  request_id?: string;
+}
+
 export interface AnalyzeResponse {
   success: boolean;
   data?: AnalysisResult;
-  error?: string;
+  error?: ApiError;
   processing_time_ms: number;
 }
 
+export interface ModelVersionInfo {
+  version: string;
+  path: string;
+  is_default: boolean;
+  loaded_at: Date;
+  embedding_dim: number | null;
+  metadata: Record<string, unknown>;
+}
+
+export interface ModelReloadReport {
+  loaded: string[];
+  unchanged: string[];
+  removed: string[];
+  failed: Array<{ version: string; error: string }>;
+}
+
+export interface InferenceSchedulerStats {
+  window_ms: number;
+  max_batch_rows: number;
+  queue_depth: number;
+  queued_rows: number;
+  batches: number;
+  requests: number;
+  rows: number;
+  avg_batch_requests: number;
+  avg_batch_rows: number;
+  max_batch_requests: number;
+  max_batch_rows_seen: number;
+  avg_wait_ms: number;
+  last_batch_at: Date | null;
+}
+
 export interface HealthCheckResponse {
   status: 'healthy' | 'unhealthy';
   model_loaded: boolean;
@@ -226,25 +896,206 @@ export class ListeningAnalyzerError extends Error {
     super(message);
     this.name = 'ListeningAnalyzerError';
   }
+
+  /**
+   * Structured context returned as `error.details`; subclasses add their own
+   */
+  getDetails(): Record<string, unknown> | undefined {
+    return undefined;
+  }
 }
 
 export class SpotifyAPIError extends ListeningAnalyzerError {
-  constructor(message: string, public spotifyCode?: string) {
-    super(message, 'SPOTIFY_API_ERROR', 502);
+  constructor(
+    message: string,
+    public spotifyCode?: string,
+    public httpStatus?: number,
+    public retryAfterMs?: number
+  ) {
+    super(message, 'SPOTIFY_API_ERROR', httpStatus === 404 ? 404 : httpStatus === 429 ? 429 : 502);
     this.name = 'SpotifyAPIError';
   }
+
+  getDetails(): Record<string, unknown> {
+    return {
+      spotify_code: this.spotifyCode,
+      spotify_status: this.httpStatus,
+      retry_after_ms: this.retryAfterMs
+    };
+  }
+}
+
+/**
+ * Spotify kept failing with 5xx or network errors until the request's
+ * retry budget ran out
+ */
+export class SpotifyUnavailableError extends ListeningAnalyzerError {
+  constructor(message: string, public lastError: SpotifyAPIError, public retryAfterMs: number) {
+    super(message, 'SPOTIFY_UNAVAILABLE', 503);
+    this.name = 'SpotifyUnavailableError';
+  }
+
+  getDetails(): Record<string, unknown> {
+    return {
+      spotify_code: this.lastError.spotifyCode,
+      spotify_status: this.lastError.httpStatus,
+      retry_after_ms: this.retryAfterMs
+    };
+  }
 }
 
 export class ModelError extends ListeningAnalyzerError {
-  constructor(message: string) {
-    super(message, 'MODEL_ERROR', 500);
+  constructor(message: string, code = 'MODEL_ERROR', statusCode = 500) {
+    super(message, code, statusCode);
     this.name = 'ModelError';
   }
 }
 
-export class ValidationError extends ListeningAnalyzerError {
+export class ModelNotLoadedError extends ModelError {
+  constructor(message = 'No model loaded') {
+    super(message, 'MODEL_NOT_LOADED', 503);
+    this.name = 'ModelNotLoadedError';
+  }
+}
+
+export class FeatureStatsUnavailableError extends ModelError {
+  constructor(message = 'Feature statistics are unavailable, so missing track features cannot be imputed yet') {
+    super(message, 'FEATURE_STATS_UNAVAILABLE', 503);
+    this.name = 'FeatureStatsUnavailableError';
+  }
+}
+
+export class ModelNotFoundError extends ModelError {
+  constructor(message: string) {
+    super(message, 'MODEL_NOT_FOUND', 404);
+    this.name = 'ModelNotFoundError';
+  }
+}
+
+export class ApiKeyNotFoundError extends ListeningAnalyzerError {
+  constructor(keyId: string) {
+    super(`API key '${keyId}' not found`, 'API_KEY_NOT_FOUND', 404);
+    this.name = 'ApiKeyNotFoundError';
+  }
+}
+
+export class SessionNotFoundError extends ListeningAnalyzerError {
+  constructor(sessionId: string) {
+    super(`Session '${sessionId}' not found or expired`, 'SESSION_NOT_FOUND', 404);
+    this.name = 'SessionNotFoundError';
+  }
+}
+
+export class CatalogError extends ListeningAnalyzerError {
+  constructor(message: string, code = 'CATALOG_UNAVAILABLE', statusCode = 503) {
+    super(message, code, statusCode);
+    this.name = 'CatalogError';
+  }
+}
+
+/**
+ * Streamed upload larger than the configured limit
+ */
+export class InputTooLargeError extends ListeningAnalyzerError {
+  constructor(public maxBytes: number) {
+    super(`Input exceeds ${maxBytes} bytes`, 'PAYLOAD_TOO_LARGE', 413);
+    this.name = 'InputTooLargeError';
+  }
+
+  getDetails(): Record<string, unknown> {
+    return { limit: this.maxBytes };
+  }
+}
+
+/**
+ * Malformed content in a streamed upload
+ */
+export class InputParseError extends ListeningAnalyzerError {
+  constructor(message: string) {
+    super(message, 'BAD_REQUEST', 400);
+    this.name = 'InputParseError';
+  }
+}
+
+export class SpotifyAuthError extends ListeningAnalyzerError {
+  constructor(message: string, code = 'SPOTIFY_AUTH_FAILED', statusCode = 502) {
+    super(message, code, statusCode);
+    this.name = 'SpotifyAuthError';
+  }
+}
+
+export class ForbiddenError extends ListeningAnalyzerError {
   constructor(message: string) {
+    super(message, 'FORBIDDEN', 403);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class QuotaExceededError extends ListeningAnalyzerError {
+  constructor(
+    public window: 'hour' | 'day',
+    public limit: number,
+    public resetsAt: Date
+  ) {
+    super(`API key ${window === 'hour' ? 'hourly' : 'daily'} quota of ${limit} requests exceeded`, 'QUOTA_EXCEEDED', 429);
+    this.name = 'QuotaExceededError';
+  }
+
+  get retryAfterMs(): number {
+    return Math.max(this.resetsAt.getTime() - Date.now(), 0);
+  }
+
+  getDetails(): Record<string, unknown> {
+    return { window: this.window, limit: this.limit, resets_at: this.resetsAt };
+  }
+}
+
+export class RateLimitedError extends ListeningAnalyzerError {
+  constructor(
+    public limit: number,
+    public cost: number,
+    public retryAfterMs: number
+  ) {
+    super('Too many requests; slow down and retry after the Retry-After delay', 'RATE_LIMITED', 429);
+    this.name = 'RateLimitedError';
+  }
+
+  getDetails(): Record<string, unknown> {
+    return { limit: this.limit, cost: this.cost, retry_after_ms: this.retryAfterMs };
+  }
+}
+
+export class AuthenticationError extends ListeningAnalyzerError {
+  constructor(message: string) {
+    super(message, 'UNAUTHORIZED', 401);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * One rejected field of a request
+ */
+export interface FieldError {
+  // JSON path of the field, e.g. tracks[0].energy; empty for the whole body
+  path: string;
+  // Joi error type, e.g. number.max or any.required
+  type: string;
+  message: string;
+  // Bound the value broke, for min/max/length rules
+  limit?: unknown;
+  // Allowed values, required peers or the type the field should have had
+  expected?: unknown;
+  // The rejected value, when it is a scalar
+  value?: string | number | boolean | null;
+}
+
+export class ValidationError extends ListeningAnalyzerError {
+  constructor(message: string, public errors: FieldError[] = []) {
     super(message, 'VALIDATION_ERROR', 400);
     this.name = 'ValidationError';
   }
+
+  getDetails(): Record<string, unknown> {
+    return { errors: this.errors };
+  }
 }
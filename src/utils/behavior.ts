@@ -0,0 +1,206 @@
+import { PlayBehavior, PlayEvent, PlayEventInput, PlayOutcome, TrackFeatures } from '@/types';
+import { DEFAULT_BEHAVIORAL_FEATURES, normalizeSpotifyFeatures } from './normalization';
+
+/**
+ * Behavioral features (skip_rate, repeat_count, playlist_position) derived
+ * from a listener's play-event log
+ */
+
+export interface BehaviorOptions {
+  // Plays shorter than this (or half the track, if shorter) are early skips
+  earlySkipMs: number;
+  // Recent judged plays behind the listener's overall skip rate
+  listenerWindow: number;
+  // How far back a track's own skips are counted
+  skipWindowMs: number;
+  // How far back a track's earlier plays count as repeats
+  repeatWindowMs: number;
+  // Pause that ends a context run even when the context stays the same
+  contextGapMs: number;
+  // Largest pause between a cut-short play and its replay that still counts as a restart
+  restartGapMs: number;
+}
+
+export const DEFAULT_BEHAVIOR_OPTIONS: BehaviorOptions = {
+  earlySkipMs: 30 * 1000,
+  listenerWindow: 50,
+  skipWindowMs: 30 * 24 * 60 * 60 * 1000,
+  repeatWindowMs: 7 * 24 * 60 * 60 * 1000,
+  contextGapMs: 30 * 60 * 1000,
+  restartGapMs: 10 * 1000
+};
+
+// Judged plays of the listener that a track's skip rate is smoothed with
+const PRIOR_WEIGHT = 2;
+
+// Earlier plays at which repeat_count saturates at 1
+const REPEAT_SATURATION = 10;
+
+const isJudged = (outcome: PlayOutcome): boolean => outcome === 'completed' || outcome === 'skipped';
+
+const listenedMs = (event: PlayEvent): number | undefined => {
+  if (event.ms_played !== undefined) {
+    return event.ms_played;
+  }
+  return event.ended_at ? event.ended_at.getTime() - event.started_at.getTime() : undefined;
+};
+
+/**
+ * Classify a play. Without a recorded play time, the next play's start still
+ * bounds it, which is enough to spot early skips.
+ */
+const playOutcome = (event: PlayEvent, next: PlayEvent | undefined, options: BehaviorOptions): PlayOutcome => {
+  const start = event.started_at.getTime();
+  const listened = listenedMs(event);
+  const upperBound = listened ?? (next ? next.started_at.getTime() - start : undefined);
+  const threshold = Math.min(options.earlySkipMs, event.duration_ms ? event.duration_ms / 2 : Infinity);
+
+  const early = event.skipped ?? (
+    listened !== undefined ? listened < threshold
+      : upperBound !== undefined && upperBound < threshold ? true
+        : undefined
+  );
+  if (early === undefined) {
+    return 'unknown';
+  }
+  if (!early) {
+    return 'completed';
+  }
+
+  if (next && next.track_id === event.track_id &&
+      next.started_at.getTime() - (start + (listened ?? 0)) <= options.restartGapMs) {
+    return 'restarted';
+  }
+  // Switching playlists or albums says nothing about the track that was playing
+  if (next && event.context && next.context && next.context !== event.context) {
+    return 'interrupted';
+  }
+  return 'skipped';
+};
+
+/**
+ * Position of each play within its run of consecutive plays from one context,
+ * 0 at the first play and 1 at the last
+ */
+const contextPositions = (events: PlayEvent[], outcomes: PlayOutcome[], options: BehaviorOptions): number[] => {
+  const positions = new Array<number>(events.length).fill(0);
+  let run: number[] = [];
+  let previousContext: string | null = null;
+  let previousEnd = 0;
+
+  const close = (): void => {
+    const last = Math.max(run.length - 1, 1);
+    run.forEach((index, k) => {
+      positions[index] = k / last;
+    });
+    run = [];
+  };
+
+  events.forEach((event, i) => {
+    // A restarted play is replaced by its replay
+    if (outcomes[i] === 'restarted') {
+      return;
+    }
+    const start = event.started_at.getTime();
+    const context = event.context ?? null;
+    if (run.length > 0 && (context !== previousContext || start - previousEnd > options.contextGapMs)) {
+      close();
+    }
+    run.push(i);
+    previousContext = context;
+    previousEnd = start + (listenedMs(event) ?? event.duration_ms ?? 0);
+  });
+  close();
+
+  for (let i = events.length - 2; i >= 0; i--) {
+    if (outcomes[i] === 'restarted') {
+      positions[i] = positions[i + 1];
+    }
+  }
+  return positions;
+};
+
+/**
+ * Derive behavioral features for every play in a log, aligned with `events`.
+ *
+ * Each play only sees what came before it:
+ * - skip_rate is the track's skip share over its recent judged plays,
+ *   smoothed towards the listener's skip rate over their last plays
+ * - repeat_count counts the track's plays within the repeat window
+ * - playlist_position places the play within its context run
+ *
+ * Restarts, context switches and plays without a known play time are left
+ * out of the skip statistics.
+ */
+export const deriveBehavioralFeatures = (
+  events: PlayEvent[],
+  options: Partial<BehaviorOptions> = {}
+): PlayBehavior[] => {
+  const config = { ...DEFAULT_BEHAVIOR_OPTIONS, ...options };
+  const order = events
+    .map((_, i) => i)
+    .sort((a, b) => events[a].started_at.getTime() - events[b].started_at.getTime() || a - b);
+  const sorted = order.map(i => events[i]);
+  const outcomes = sorted.map((event, i) => playOutcome(event, sorted[i + 1], config));
+  const positions = contextPositions(sorted, outcomes, config);
+
+  const results = new Array<PlayBehavior>(events.length);
+  const listenerSkips: boolean[] = [];
+  const trackPlays = new Map<string, Array<{ time: number; outcome: PlayOutcome }>>();
+  const horizon = Math.max(config.skipWindowMs, config.repeatWindowMs);
+
+  sorted.forEach((event, i) => {
+    const start = event.started_at.getTime();
+    const prior = (trackPlays.get(event.track_id) || []).filter(play => start - play.time <= horizon);
+
+    const listenerRate = listenerSkips.length > 0
+      ? listenerSkips.filter(Boolean).length / listenerSkips.length
+      : DEFAULT_BEHAVIORAL_FEATURES.skip_rate;
+    const judged = prior.filter(play => isJudged(play.outcome) && start - play.time <= config.skipWindowMs);
+    const skips = judged.filter(play => play.outcome === 'skipped').length;
+    const repeats = prior.filter(play => play.outcome !== 'restarted' && start - play.time <= config.repeatWindowMs);
+
+    results[order[i]] = {
+      skip_rate: (skips + PRIOR_WEIGHT * listenerRate) / (judged.length + PRIOR_WEIGHT),
+      repeat_count: Math.min(1, repeats.length / REPEAT_SATURATION),
+      playlist_position: positions[i],
+      outcome: outcomes[i]
+    };
+
+    prior.push({ time: start, outcome: outcomes[i] });
+    trackPlays.set(event.track_id, prior);
+    if (isJudged(outcomes[i])) {
+      listenerSkips.push(outcomes[i] === 'skipped');
+      if (listenerSkips.length > config.listenerWindow) {
+        listenerSkips.shift();
+      }
+    }
+  });
+
+  return results;
+};
+
+/**
+ * Model features for each play of an /analyze play-event log, in play order
+ */
+export const playEventFeatures = (
+  events: PlayEventInput[],
+  options: Partial<BehaviorOptions> = {}
+): TrackFeatures[] => {
+  const behavior = deriveBehavioralFeatures(
+    events.map(event => ({ ...event, duration_ms: event.features.duration_ms })),
+    options
+  );
+
+  return events
+    .map((event, i) => ({ event, behavior: behavior[i] }))
+    .sort((a, b) => a.event.started_at.getTime() - b.event.started_at.getTime())
+    .map(({ event, behavior: { skip_rate, repeat_count, playlist_position } }) => normalizeSpotifyFeatures({
+      ...event.features,
+      played_at: event.started_at,
+      utc_offset_minutes: event.utc_offset_minutes,
+      skip_rate,
+      repeat_count,
+      playlist_position
+    }));
+};
@@ -0,0 +1,92 @@
+import { StringDecoder } from 'string_decoder';
+import { InputParseError, InputTooLargeError } from '@/types';
+
+/**
+ * Incremental parsing for large CSV exports
+ */
+
+/**
+ * Yield each row of an RFC 4180 CSV document as it arrives. Quoted fields may
+ * contain commas, doubled quotes and line breaks; blank lines are skipped.
+ */
+export async function* parseCsvStream(
+  chunks: AsyncIterable<Buffer | string>,
+  maxBytes = Infinity
+): AsyncGenerator<string[]> {
+  let bytes = 0;
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // A quote inside a quoted field: either an escaped quote or the closing one
+  let pendingQuote = false;
+  let lastWasCR = false;
+  const decoder = new StringDecoder('utf8');
+
+  const endRow = (): string[] | null => {
+    row.push(field);
+    const done = row;
+    row = [];
+    field = '';
+    return done.length === 1 && done[0] === '' ? null : done;
+  };
+
+  for await (const chunk of chunks) {
+    bytes += typeof chunk === 'string' ? Buffer.byteLength(chunk) : chunk.length;
+    if (bytes > maxBytes) {
+      throw new InputTooLargeError(maxBytes);
+    }
+
+    const text = typeof chunk === 'string' ? chunk : decoder.write(chunk);
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (pendingQuote) {
+        pendingQuote = false;
+        if (char === '"') {
+          field += '"';
+          continue;
+        }
+        inQuotes = false;
+      }
+
+      if (inQuotes) {
+        if (char === '"') {
+          pendingQuote = true;
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      // \r\n counts as one line break
+      const afterCR = lastWasCR;
+      lastWasCR = char === '\r';
+
+      if (char === '"' && field === '') {
+        inQuotes = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\r' || char === '\n') {
+        if (char === '\n' && afterCR) {
+          continue;
+        }
+        const done = endRow();
+        if (done) {
+          yield done;
+        }
+      } else {
+        field += char;
+      }
+    }
+  }
+
+  if (inQuotes && !pendingQuote) {
+    throw new InputParseError('Unterminated quoted field');
+  }
+  const last = endRow();
+  if (last) {
+    yield last;
+  }
+}
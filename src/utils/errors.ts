@@ -0,0 +1,76 @@
+import { ApiError, ListeningAnalyzerError } from '@/types';
+
+/**
+ * Error codes the API can return, with their HTTP status. Published in
+ * API_SPEC.md and served by GET /errors; add new codes here first.
+ */
+
+export interface ErrorCodeInfo {
+  status: number;
+  description: string;
+}
+
+export const ERROR_CATALOG: Record<string, ErrorCodeInfo> = {
+  VALIDATION_ERROR: { status: 400, description: 'Request fields failed validation; see details.errors' },
+  INVALID_JSON: { status: 400, description: 'Request body is not valid JSON' },
+  BAD_REQUEST: { status: 400, description: 'Request body could not be read' },
+  INVALID_TARGET: { status: 400, description: 'Recommendation request has no features to match on' },
+  UNAUTHORIZED: { status: 401, description: 'Missing or invalid credentials' },
+  FORBIDDEN: { status: 403, description: 'API key lacks the scope the route requires' },
+  SPOTIFY_AUTH_DENIED: { status: 403, description: 'The user declined Spotify authorization' },
+  NOT_FOUND: { status: 404, description: 'No such route' },
+  SESSION_NOT_FOUND: { status: 404, description: 'Listening session does not exist or has expired' },
+  MODEL_NOT_FOUND: { status: 404, description: 'Requested model version is not loaded' },
+  API_KEY_NOT_FOUND: { status: 404, description: 'API key does not exist' },
+  PAYLOAD_TOO_LARGE: { status: 413, description: 'Request body or uploaded history file exceeds the size limit' },
+  RATE_LIMITED: { status: 429, description: 'Too many requests in a short time; see Retry-After and RateLimit-* headers' },
+  QUOTA_EXCEEDED: { status: 429, description: 'API key used up its hourly or daily quota; see Retry-After' },
+  MODEL_ERROR: { status: 500, description: 'Model failed to load or run' },
+  INTERNAL_ERROR: { status: 500, description: 'Unexpected server error' },
+  SPOTIFY_API_ERROR: { status: 502, description: 'Spotify Web API call failed; 404 and 429 from Spotify are passed through' },
+  SPOTIFY_AUTH_FAILED: { status: 502, description: 'Spotify token exchange or refresh failed' },
+  SPOTIFY_UNAVAILABLE: { status: 503, description: 'Spotify kept failing until the request ran out of retry time; see Retry-After' },
+  FEATURE_STATS_UNAVAILABLE: { status: 503, description: 'Missing track features cannot be imputed until feature statistics are available' },
+  MODEL_NOT_LOADED: { status: 503, description: 'No model is loaded yet' },
+  CATALOG_UNAVAILABLE: { status: 503, description: 'Track catalog is not loaded' }
+};
+
+// body-parser error types mapped onto catalog codes
+const BODY_PARSER_CODES: Record<string, string> = {
+  'entity.parse.failed': 'INVALID_JSON',
+  'entity.too.large': 'PAYLOAD_TOO_LARGE'
+};
+
+/**
+ * HTTP status and error body for anything thrown while handling a request.
+ * Errors outside the ListeningAnalyzerError hierarchy are reported as
+ * INTERNAL_ERROR without their message, except client errors raised by the
+ * body parsers.
+ */
+export const toApiError = (error: unknown): { status: number; error: ApiError } => {
+  if (error instanceof ListeningAnalyzerError) {
+    const details = error.getDetails();
+    return {
+      status: error.statusCode,
+      error: {
+        code: error.code,
+        message: error.message,
+        ...(details ? { details } : {})
+      }
+    };
+  }
+
+  const parserError = error as { type?: string; status?: number; expose?: boolean; message?: string };
+  if (parserError && typeof parserError.status === 'number' && parserError.status >= 400 &&
+      parserError.status < 500 && parserError.expose) {
+    return {
+      status: parserError.status,
+      error: {
+        code: BODY_PARSER_CODES[parserError.type || ''] || 'BAD_REQUEST',
+        message: parserError.message || 'Bad request'
+      }
+    };
+  }
+
+  return { status: 500, error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } };
+};
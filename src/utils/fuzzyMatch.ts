@@ -0,0 +1,79 @@
+/**
+ * Artist/title normalization and similarity for matching plays to the catalog
+ */
+
+// Bracketed or dash-separated suffixes that name the same recording
+const VERSION_NOISE = /\b(feat|ft|featuring|with|remaster(ed)?|mono|stereo|version|edit|deluxe|bonus|explicit|clean)\b/;
+
+// Separators between the artists of a collaboration
+const ARTIST_SEPARATORS = /\s*(?:,|;|\/|&|\+|\bx\b|\band\b|\bwith\b|\bfeat\.?|\bft\.?|\bfeaturing\b)\s*/;
+
+const fold = (value: string): string =>
+  value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+
+const collapse = (value: string): string =>
+  value
+    .replace(/[\s!-/:-@[-`{-~\u2010-\u201f]+/g, ' ')
+    .trim()
+    .replace(/^the /, '');
+
+/**
+ * Fold a track title to a comparable form. Featured artists, remaster and
+ * edit tags are dropped; remix and live tags are kept since those are
+ * different recordings.
+ */
+export const normalizeTitle = (title: string): string => {
+  const folded = fold(title)
+    .replace(/\s*[([]([^)\]]*)[)\]]/g, (part, inner: string) => (VERSION_NOISE.test(inner) ? '' : part))
+    .replace(/\s+[-\u2013\u2014]\s+(.*)$/, (part, suffix: string) => (VERSION_NOISE.test(suffix) ? '' : part))
+    .replace(/\s+(feat|ft|featuring)\b.*$/, '');
+  return collapse(folded);
+};
+
+/**
+ * Normalized names of every artist credited in `artist`, plus the full credit
+ * so duos like "Simon & Garfunkel" still match as a whole
+ */
+export const normalizeArtists = (artist: string): string[] => {
+  const folded = fold(artist);
+  const names = [folded, ...folded.split(ARTIST_SEPARATORS)].map(collapse).filter(name => name.length > 0);
+  return Array.from(new Set(names));
+};
+
+const bigrams = (value: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < value.length - 1; i++) {
+    const gram = value.slice(i, i + 2);
+    counts.set(gram, (counts.get(gram) || 0) + 1);
+  }
+  return counts;
+};
+
+/**
+ * Sørensen–Dice similarity of two normalized strings over character bigrams, 0-1
+ */
+export const similarity = (a: string, b: string): number => {
+  if (a === b) {
+    return 1;
+  }
+  if (a.length < 2 || b.length < 2) {
+    return 0;
+  }
+
+  const gramsA = bigrams(a);
+  const gramsB = bigrams(b);
+  let shared = 0;
+  gramsA.forEach((count, gram) => {
+    shared += Math.min(count, gramsB.get(gram) || 0);
+  });
+  return (2 * shared) / (a.length - 1 + b.length - 1);
+};
+
+/**
+ * Best similarity between any artist on one side and any on the other
+ */
+export const artistSimilarity = (a: string[], b: string[]): number =>
+  a.reduce((best, left) => b.reduce((inner, right) => Math.max(inner, similarity(left, right)), best), 0);
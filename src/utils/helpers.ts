@@ -46,6 +46,16 @@ export const standardDeviation = (values: number[]): number => {
   return Math.sqrt(mean(squareDiffs));
 };
 
+/**
+ * Gauss error function (Abramowitz & Stegun 7.1.26, max error 1.5e-7)
+ */
+export const erf = (x: number): number => {
+  const sign = x < 0 ? -1 : 1;
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  return sign * (1 - poly * Math.exp(-x * x));
+};
+
 /**
  * Shuffle array using Fisher-Yates algorithm
  */
@@ -71,13 +81,21 @@ export const chunkArray = <T>(array: T[], chunkSize: number): T[][] => {
   return chunks;
 };
 
+export interface RetryOptions {
+  // Give up immediately on errors that retrying can't fix
+  shouldRetry?: (error: Error, attempt: number) => boolean;
+  // Server-requested delay (e.g. Retry-After); undefined falls back to backoff
+  delayFor?: (error: Error, attempt: number) => number | undefined;
+}
+
 /**
  * Retry a function with exponential backoff
  */
 export const retry = async <T>(
   fn: () => Promise<T>,
   maxRetries = 3,
-  baseDelay = 1000
+  baseDelay = 1000,
+  options: RetryOptions = {}
 ): Promise<T> => {
   let lastError: Error;
   
@@ -87,11 +105,11 @@ export const retry = async <T>(
     } catch (error) {
       lastError = error as Error;
       
-      if (attempt === maxRetries) {
+      if (attempt === maxRetries || (options.shouldRetry && !options.shouldRetry(lastError, attempt))) {
         throw lastError;
       }
       
-      const delay = baseDelay * Math.pow(2, attempt - 1);
+      const delay = options.delayFor?.(lastError, attempt) ?? baseDelay * Math.pow(2, attempt - 1);
       await sleep(delay);
     }
   }
@@ -233,6 +251,23 @@ export const parseNumber = (value: string | undefined, defaultValue: number): nu
   return isNaN(parsed) ? defaultValue : parsed;
 };
 
+/**
+ * Parse environment variable as a comma-separated list of name=number pairs,
+ * e.g. "POST /analyze=5,GET /health=0". Malformed entries are skipped.
+ */
+export const parseNumberMap = (value: string | undefined): Record<string, number> => {
+  if (!value) return {};
+  return value.split(',').reduce<Record<string, number>>((map, entry) => {
+    const separator = entry.lastIndexOf('=');
+    const name = entry.slice(0, separator).trim();
+    const parsed = Number(entry.slice(separator + 1));
+    if (separator > 0 && name && !isNaN(parsed)) {
+      map[name] = parsed;
+    }
+    return map;
+  }, {});
+};
+
 /**
  * Safe JSON parse with default value
  */
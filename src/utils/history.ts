@@ -0,0 +1,153 @@
+import {
+  HistorySummary,
+  ListeningSession,
+  SpotifyAudioFeatures,
+  SpotifyRecentlyPlayed,
+  Track,
+  TrackFeatures
+} from '@/types';
+import { mean } from './helpers';
+import {
+  deriveTemporalFeatures,
+  hasFiniteFeatures,
+  isNormalizedFeatures,
+  normalizeSpotifyFeatures,
+  unscaleFeature
+} from './normalization';
+
+/**
+ * Helpers for turning a listener's play history into sessions
+ */
+
+const TOP_ARTISTS = 5;
+
+/**
+ * Join a recently-played item with its audio features
+ */
+export const toHistoryTrack = (item: SpotifyRecentlyPlayed, features: SpotifyAudioFeatures | null): Track => ({
+  id: item.track.id,
+  name: item.track.name,
+  artist: item.track.artists.map(artist => artist.name).join(', '),
+  album: item.track.album.name,
+  played_at: new Date(item.played_at),
+  duration_ms: item.track.duration_ms,
+  popularity: item.track.popularity,
+  features: features || undefined
+});
+
+type BehavioralFeatures = Pick<TrackFeatures, 'skip_rate' | 'repeat_count' | 'playlist_position'>;
+
+/**
+ * Model features for a played track, with temporal features from its play time.
+ * Behavioral features are taken from `behavioral`, then from stored model
+ * features, then the API defaults. Null when the track has no features, or
+ * when any of them isn't a finite number.
+ */
+export const historyTrackFeatures = (
+  track: Track,
+  utcOffsetMinutes = 0,
+  behavioral: Partial<BehavioralFeatures> = {}
+): TrackFeatures | null => {
+  if (!track.features) {
+    return null;
+  }
+
+  const features = isNormalizedFeatures(track.features)
+    ? {
+        ...track.features,
+        ...deriveTemporalFeatures(track.played_at, utcOffsetMinutes),
+        ...behavioral
+      }
+    : normalizeSpotifyFeatures({
+        ...track.features,
+        played_at: track.played_at,
+        utc_offset_minutes: utcOffsetMinutes,
+        ...behavioral
+      });
+  return hasFiniteFeatures(features) ? features : null;
+};
+
+/**
+ * Split plays into sessions wherever the listener paused longer than `gapMs`.
+ * The pause is measured from the end of one track to the start of the next.
+ */
+export const splitIntoSessions = (tracks: Track[], gapMs: number): ListeningSession[] => {
+  const sorted = [...tracks].sort((a, b) => a.played_at.getTime() - b.played_at.getTime());
+  const sessions: ListeningSession[] = [];
+  let current: Track[] = [];
+
+  const close = (): void => {
+    if (current.length === 0) {
+      return;
+    }
+    const last = current[current.length - 1];
+    sessions.push({
+      tracks: current,
+      start_time: current[0].played_at,
+      end_time: new Date(last.played_at.getTime() + last.duration_ms),
+      session_id: `session-${current[0].played_at.getTime()}`
+    });
+    current = [];
+  };
+
+  sorted.forEach(track => {
+    const previous = current[current.length - 1];
+    if (previous) {
+      const pause = track.played_at.getTime() - (previous.played_at.getTime() + previous.duration_ms);
+      if (pause > gapMs) {
+        close();
+      }
+    }
+    current.push(track);
+  });
+  close();
+
+  return sessions;
+};
+
+/**
+ * Roll a listener's whole history up into headline stats
+ */
+export const summarizeHistory = (
+  tracks: Track[],
+  sessions: ListeningSession[],
+  utcOffsetMinutes = 0
+): HistorySummary => {
+  const playTimes = tracks.map(track => track.played_at.getTime());
+  const artistPlays = new Map<string, number>();
+  const playsByHour = new Array(24).fill(0);
+
+  tracks.forEach(track => {
+    artistPlays.set(track.artist, (artistPlays.get(track.artist) || 0) + 1);
+    const local = new Date(track.played_at.getTime() + utcOffsetMinutes * 60000);
+    playsByHour[local.getUTCHours()]++;
+  });
+
+  const features = tracks
+    .map(track => historyTrackFeatures(track, utcOffsetMinutes))
+    .filter((f): f is TrackFeatures => f !== null);
+
+  return {
+    total_plays: tracks.length,
+    unique_tracks: new Set(tracks.map(track => track.id)).size,
+    unique_artists: artistPlays.size,
+    first_played_at: tracks.length > 0 ? new Date(playTimes.reduce((a, b) => Math.min(a, b))) : null,
+    last_played_at: tracks.length > 0 ? new Date(playTimes.reduce((a, b) => Math.max(a, b))) : null,
+    sessions: sessions.length,
+    avg_session_tracks: sessions.length > 0 ? mean(sessions.map(session => session.tracks.length)) : 0,
+    avg_session_minutes: sessions.length > 0
+      ? mean(sessions.map(session => (session.end_time.getTime() - session.start_time.getTime()) / 60000))
+      : 0,
+    top_artists: Array.from(artistPlays.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, TOP_ARTISTS)
+      .map(([artist, plays]) => ({ artist, plays })),
+    plays_by_hour: playsByHour,
+    avg_features: {
+      valence: features.length > 0 ? mean(features.map(f => f.valence)) : 0,
+      energy: features.length > 0 ? mean(features.map(f => f.energy)) : 0,
+      danceability: features.length > 0 ? mean(features.map(f => f.danceability)) : 0,
+      tempo: features.length > 0 ? unscaleFeature('tempo', mean(features.map(f => f.tempo))) : 0
+    }
+  };
+};
@@ -1,5 +1,7 @@
 import { TrackFeatures, ModelPredictions, ListeningInsights } from '@/types';
 import { mean, standardDeviation } from './helpers';
+import { unscaleFeature } from './normalization';
+import { KEY_NAMES } from './transitions';
 
 /**
  * Generate human-readable insights from listening data and model predictions
@@ -150,8 +152,7 @@ const generatePatternInsights = (
   // Analyze musical key preferences
   const keyDistribution = analyzeKeyDistribution(tracks);
   if (keyDistribution.dominantKey !== null) {
-    const keyNames = ['C', 'C♯/D♭', 'D', 'D♯/E♭', 'E', 'F', 'F♯/G♭', 'G', 'G♯/A♭', 'A', 'A♯/B♭', 'B'];
-    patterns.push(`You show a preference for music in ${keyNames[keyDistribution.dominantKey]}, which might contribute to a consistent harmonic feel in your listening.`);
+    patterns.push(`You show a preference for music in ${KEY_NAMES[keyDistribution.dominantKey]}, which might contribute to a consistent harmonic feel in your listening.`);
   }
   
   // Analyze tempo patterns
@@ -212,7 +213,7 @@ const analyzeTempoPatterns = (tracks: TrackFeatures[]): {
   variance: number;
   dominantRange: string;
 } => {
-  const tempos = tracks.map(t => t.tempo * 150 + 50); // Convert from normalized (assuming 50-200 BPM range)
+  const tempos = tracks.map(t => unscaleFeature('tempo', t.tempo)); // Convert back to BPM
   const variance = standardDeviation(tempos) / mean(tempos); // Coefficient of variation
   
   const avgTempo = mean(tempos);
@@ -0,0 +1,112 @@
+import { StringDecoder } from 'string_decoder';
+import { InputParseError, InputTooLargeError } from '@/types';
+
+/**
+ * Incremental parsing for large JSON exports
+ */
+
+/**
+ * Yield each object of a top-level JSON array as it arrives, without holding
+ * the whole document in memory. Only object elements are yielded; anything
+ * else at the top level of the array is skipped.
+ */
+export async function* parseJsonArrayStream(
+  chunks: AsyncIterable<Buffer | string>,
+  maxBytes = Infinity
+): AsyncGenerator<unknown> {
+  yield* parseJsonObjects(chunks, maxBytes, false);
+}
+
+/**
+ * Like parseJsonArrayStream, but also accepts newline-delimited JSON
+ * (one object per line), as used by newer export formats
+ */
+export async function* parseJsonRecordStream(
+  chunks: AsyncIterable<Buffer | string>,
+  maxBytes = Infinity
+): AsyncGenerator<unknown> {
+  yield* parseJsonObjects(chunks, maxBytes, true);
+}
+
+const parseRecord = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new InputParseError(error instanceof Error ? error.message : String(error));
+  }
+};
+
+async function* parseJsonObjects(
+  chunks: AsyncIterable<Buffer | string>,
+  maxBytes: number,
+  allowLines: boolean
+): AsyncGenerator<unknown> {
+  let bytes = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  // Depth at which records sit: 1 inside an array, 0 for JSON lines; -1 until known
+  let recordDepth = -1;
+  let current = '';
+  // Keeps multi-byte characters intact across chunk boundaries
+  const decoder = new StringDecoder('utf8');
+
+  for await (const chunk of chunks) {
+    bytes += typeof chunk === 'string' ? Buffer.byteLength(chunk) : chunk.length;
+    if (bytes > maxBytes) {
+      throw new InputTooLargeError(maxBytes);
+    }
+
+    const text = typeof chunk === 'string' ? chunk : decoder.write(chunk);
+    let objectStart = recordDepth >= 0 && depth > recordDepth ? 0 : -1;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === '[' || char === '{') {
+        if (recordDepth < 0) {
+          if (char === '[') {
+            recordDepth = 1;
+          } else if (allowLines) {
+            recordDepth = 0;
+          } else {
+            throw new InputParseError('Expected a JSON array');
+          }
+        }
+        if (depth === recordDepth && char === '{') {
+          objectStart = i;
+        }
+        depth++;
+      } else if (char === ']' || char === '}') {
+        depth--;
+        if (depth === recordDepth && char === '}') {
+          yield parseRecord(current + text.slice(objectStart, i + 1));
+          current = '';
+          objectStart = -1;
+        }
+      }
+    }
+
+    // Carry an unfinished object over to the next chunk
+    if (recordDepth >= 0 && depth > recordDepth) {
+      current += text.slice(objectStart);
+    }
+  }
+
+  if (recordDepth < 0 || depth !== 0) {
+    throw new InputParseError(allowLines ? 'Unexpected end of JSON input' : 'Unexpected end of JSON array');
+  }
+}
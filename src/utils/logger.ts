@@ -1,5 +1,6 @@
 import winston from 'winston';
 import { join } from 'path';
+import { getRequestId } from './requestContext';
 
 // Define log levels
 const levels = {
@@ -22,12 +23,22 @@ const colors = {
 // Tell winston about our colors
 winston.addColors(colors);
 
+// Tag lines logged while handling a request with its ID
+const requestId = winston.format((info) => {
+  const id = getRequestId();
+  if (id && info.request_id === undefined) {
+    info.request_id = id;
+  }
+  return info;
+});
+
 // Define log format
 const format = winston.format.combine(
+  requestId(),
   winston.format.timestamp({ format: 'YYYY-MM-DD HH:mm:ss:ms' }),
   winston.format.colorize({ all: true }),
   winston.format.printf(
-    (info) => `${info.timestamp} ${info.level}: ${info.message}`
+    (info) => `${info.timestamp} ${info.level}${info.request_id ? ` [${info.request_id}]` : ''}: ${info.message}`
   )
 );
 
@@ -0,0 +1,167 @@
+import { SpotifyAudioFeatures, TrackFeatures, SpotifyTrackInput } from '@/types';
+import { clamp, normalize } from './helpers';
+
+/**
+ * Shared feature scaling used by both the API and the training scripts.
+ * Every model input must go through this module so training and serving agree.
+ */
+
+/**
+ * Order of the 20 features in the model input vector
+ */
+export const FEATURE_ORDER: Array<keyof TrackFeatures> = [
+  'danceability',
+  'energy',
+  'key',
+  'loudness',
+  'mode',
+  'speechiness',
+  'acousticness',
+  'instrumentalness',
+  'liveness',
+  'valence',
+  'tempo',
+  'duration_ms',
+  'time_signature',
+  'hour_of_day',
+  'day_of_week',
+  'month',
+  'is_weekend',
+  'skip_rate',
+  'repeat_count',
+  'playlist_position'
+];
+
+/**
+ * Raw Spotify value ranges mapped onto 0-1
+ */
+export const FEATURE_RANGES = {
+  key: { min: 0, max: 11 },
+  loudness: { min: -60, max: 0 },
+  tempo: { min: 0, max: 200 },
+  duration_ms: { min: 0, max: 600000 },
+  time_signature: { min: 0, max: 7 }
+} as const;
+
+/**
+ * Behavioral defaults used when a client has no play history for a track
+ */
+export const DEFAULT_BEHAVIORAL_FEATURES = {
+  skip_rate: 0.1,
+  repeat_count: 0.1,
+  playlist_position: 0.5
+} as const;
+
+type ScaledFeature = keyof typeof FEATURE_RANGES;
+
+/**
+ * Scale a raw Spotify value into the 0-1 model range
+ */
+export const scaleFeature = (feature: ScaledFeature, value: number): number => {
+  const { min, max } = FEATURE_RANGES[feature];
+  return clamp(normalize(value, min, max), 0, 1);
+};
+
+/**
+ * Convert a 0-1 model value back into its raw Spotify unit
+ */
+export const unscaleFeature = (feature: ScaledFeature, value: number): number => {
+  const { min, max } = FEATURE_RANGES[feature];
+  return normalize(value, 0, 1, min, max);
+};
+
+/**
+ * Derive normalized temporal features from a play timestamp.
+ * The offset shifts UTC into the listener's local time.
+ */
+export const deriveTemporalFeatures = (
+  playedAt: Date,
+  utcOffsetMinutes = 0
+): Pick<TrackFeatures, 'hour_of_day' | 'day_of_week' | 'month' | 'is_weekend'> => {
+  const local = new Date(playedAt.getTime() + utcOffsetMinutes * 60000);
+  const day = local.getUTCDay();
+
+  return {
+    hour_of_day: local.getUTCHours() / 24,
+    day_of_week: day / 7,
+    month: local.getUTCMonth() / 12,
+    is_weekend: day === 0 || day === 6 ? 1 : 0
+  };
+};
+
+// Spotify's key when none was detected
+export const UNDETECTED_KEY = -1;
+
+/**
+ * Normalize raw Spotify audio features plus a play timestamp into model features.
+ * An undetected key becomes NaN, marking it missing: the imputer fills it in,
+ * and paths that need every feature drop the track (see hasFiniteFeatures).
+ */
+export const normalizeSpotifyFeatures = (input: SpotifyTrackInput): TrackFeatures => {
+  const playedAt = input.played_at instanceof Date ? input.played_at : new Date(input.played_at);
+
+  return {
+    danceability: clamp(input.danceability, 0, 1),
+    energy: clamp(input.energy, 0, 1),
+    key: input.key === UNDETECTED_KEY ? NaN : scaleFeature('key', input.key),
+    loudness: scaleFeature('loudness', input.loudness),
+    mode: clamp(input.mode, 0, 1),
+    speechiness: clamp(input.speechiness, 0, 1),
+    acousticness: clamp(input.acousticness, 0, 1),
+    instrumentalness: clamp(input.instrumentalness, 0, 1),
+    liveness: clamp(input.liveness, 0, 1),
+    valence: clamp(input.valence, 0, 1),
+    tempo: scaleFeature('tempo', input.tempo),
+    duration_ms: scaleFeature('duration_ms', input.duration_ms),
+    time_signature: scaleFeature('time_signature', input.time_signature),
+    ...deriveTemporalFeatures(playedAt, input.utc_offset_minutes),
+    skip_rate: input.skip_rate ?? DEFAULT_BEHAVIORAL_FEATURES.skip_rate,
+    repeat_count: input.repeat_count ?? DEFAULT_BEHAVIORAL_FEATURES.repeat_count,
+    playlist_position: input.playlist_position ?? DEFAULT_BEHAVIORAL_FEATURES.playlist_position
+  };
+};
+
+/**
+ * Check whether a track input carries raw Spotify features
+ */
+export const isSpotifyTrackInput = (
+  track: Partial<TrackFeatures> | SpotifyTrackInput
+): track is SpotifyTrackInput => {
+  return (track as SpotifyTrackInput).played_at !== undefined;
+};
+
+/**
+ * Resolve either input format into normalized model features
+ */
+export const toTrackFeatures = (track: TrackFeatures | SpotifyTrackInput): TrackFeatures => {
+  return isSpotifyTrackInput(track) ? normalizeSpotifyFeatures(track) : track;
+};
+
+/**
+ * Like toTrackFeatures, but model-space input may leave features out for imputation
+ */
+export const toPartialTrackFeatures = (track: Partial<TrackFeatures> | SpotifyTrackInput): Partial<TrackFeatures> => {
+  return isSpotifyTrackInput(track) ? normalizeSpotifyFeatures(track) : track;
+};
+
+/**
+ * Whether stored audio features are already in model space.
+ * Raw Spotify tempo and duration are always well above 1.
+ */
+export const isNormalizedFeatures = (features: TrackFeatures | SpotifyAudioFeatures): features is TrackFeatures => {
+  return features.tempo <= 1 && features.duration_ms <= 1;
+};
+
+/**
+ * Whether every model input is a finite number
+ */
+export const hasFiniteFeatures = (features: TrackFeatures): boolean => {
+  return FEATURE_ORDER.every(feature => Number.isFinite(features[feature]));
+};
+
+/**
+ * Flatten normalized features into the model input vector
+ */
+export const featuresToVector = (features: TrackFeatures): number[] => {
+  return FEATURE_ORDER.map(feature => features[feature]);
+};
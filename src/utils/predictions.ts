@@ -0,0 +1,82 @@
+import { TrackPrediction } from '@/types';
+
+/**
+ * Helpers for turning raw model output rows into API predictions
+ */
+
+/**
+ * Model output columns, in order
+ */
+export const PREDICTION_OUTPUTS: Array<keyof TrackPrediction> = ['valence', 'energy', 'danceability'];
+
+/**
+ * Split a flat [n, 3] prediction buffer into one prediction per input track.
+ * Row i is the model's guess for the track that follows track i.
+ */
+export const toTrackPredictions = (
+  values: ArrayLike<number>,
+  numTracks: number
+): TrackPrediction[] => {
+  const width = PREDICTION_OUTPUTS.length;
+  const rows: TrackPrediction[] = [];
+
+  for (let i = 0; i < numTracks; i++) {
+    rows.push({
+      valence: values[i * width],
+      energy: values[i * width + 1],
+      danceability: values[i * width + 2]
+    });
+  }
+
+  return rows;
+};
+
+/**
+ * Exponential recency weights that sum to 1, newest track last.
+ * A track `halfLife` positions before the newest one gets half its weight.
+ */
+export const recencyWeights = (count: number, halfLife: number): number[] => {
+  const raw = Array.from({ length: count }, (_, i) =>
+    Math.pow(0.5, (count - 1 - i) / Math.max(halfLife, Number.EPSILON))
+  );
+  const total = raw.reduce((sum, w) => sum + w, 0);
+  return raw.map(w => w / total);
+};
+
+/**
+ * Collapse per-track predictions into one session-level prediction
+ */
+export const aggregatePredictions = (
+  rows: TrackPrediction[],
+  halfLife: number
+): TrackPrediction => {
+  const weights = recencyWeights(rows.length, halfLife);
+  const aggregate: TrackPrediction = { valence: 0, energy: 0, danceability: 0 };
+
+  rows.forEach((row, i) => {
+    PREDICTION_OUTPUTS.forEach(output => {
+      aggregate[output] += row[output] * weights[i];
+    });
+  });
+
+  return aggregate;
+};
+
+/**
+ * Recency-weighted spread of per-track predictions around the session aggregate,
+ * root-mean-squared over the output columns
+ */
+export const predictionSpread = (rows: TrackPrediction[], halfLife: number): number => {
+  const weights = recencyWeights(rows.length, halfLife);
+  const aggregate = aggregatePredictions(rows, halfLife);
+
+  const variance = rows.reduce((sum, row, i) => {
+    const sq = PREDICTION_OUTPUTS.reduce(
+      (acc, output) => acc + Math.pow(row[output] - aggregate[output], 2),
+      0
+    );
+    return sum + weights[i] * sq / PREDICTION_OUTPUTS.length;
+  }, 0);
+
+  return Math.sqrt(variance);
+};
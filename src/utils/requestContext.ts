@@ -0,0 +1,39 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+
+/**
+ * Per-request state that follows a request through async calls, so log lines
+ * can carry its ID without threading it through every function
+ */
+
+export interface RequestContext {
+  requestId: string;
+}
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Client-supplied IDs are reused only when they are safe to echo and log
+const CLIENT_REQUEST_ID = /^[A-Za-z0-9._:-]{1,128}$/;
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Reuse the caller's request ID when it is well-formed, otherwise mint one
+ */
+export const resolveRequestId = (presented: unknown): string => {
+  return typeof presented === 'string' && CLIENT_REQUEST_ID.test(presented) ? presented : randomUUID();
+};
+
+/**
+ * Run `fn` (and everything it awaits) within a request's context
+ */
+export const runWithRequestContext = <T>(context: RequestContext, fn: () => T): T => {
+  return storage.run(context, fn);
+};
+
+/**
+ * ID of the request being handled, if any
+ */
+export const getRequestId = (): string | undefined => {
+  return storage.getStore()?.requestId;
+};
@@ -0,0 +1,80 @@
+import {
+  TrajectoryBreakpoint,
+  TrajectoryDeviation,
+  TrajectoryPoint,
+  TrajectoryPreset
+} from '@/types';
+
+/**
+ * Target energy/valence curves for planned sets
+ */
+
+/**
+ * Named set shapes, as breakpoints over the set's length
+ */
+export const TRAJECTORY_PRESETS: Record<TrajectoryPreset, TrajectoryBreakpoint[]> = {
+  warmup_peak_cooldown: [
+    { at: 0, energy: 0.35, valence: 0.45 },
+    { at: 0.3, energy: 0.7, valence: 0.6 },
+    { at: 0.6, energy: 0.9, valence: 0.75 },
+    { at: 0.8, energy: 0.7, valence: 0.65 },
+    { at: 1, energy: 0.3, valence: 0.45 }
+  ],
+  build_up: [
+    { at: 0, energy: 0.3, valence: 0.4 },
+    { at: 1, energy: 0.9, valence: 0.75 }
+  ],
+  wind_down: [
+    { at: 0, energy: 0.75, valence: 0.6 },
+    { at: 1, energy: 0.2, valence: 0.35 }
+  ],
+  steady: [
+    { at: 0, energy: 0.65, valence: 0.6 },
+    { at: 1, energy: 0.65, valence: 0.6 }
+  ],
+  waves: [
+    { at: 0, energy: 0.4, valence: 0.5 },
+    { at: 0.25, energy: 0.8, valence: 0.7 },
+    { at: 0.5, energy: 0.45, valence: 0.5 },
+    { at: 0.75, energy: 0.85, valence: 0.7 },
+    { at: 1, energy: 0.5, valence: 0.55 }
+  ]
+};
+
+/**
+ * Sample a piecewise-linear curve at `slots` evenly spaced positions.
+ * Positions before the first or after the last breakpoint hold its value.
+ */
+export const interpolateTrajectory = (breakpoints: TrajectoryBreakpoint[], slots: number): TrajectoryPoint[] => {
+  const points = [...breakpoints].sort((a, b) => a.at - b.at);
+
+  return Array.from({ length: slots }, (_, i) => {
+    const x = slots === 1 ? 0 : i / (slots - 1);
+    const after = points.findIndex(point => point.at >= x);
+
+    if (after === -1) {
+      const last = points[points.length - 1];
+      return { energy: last.energy, valence: last.valence };
+    }
+    if (after === 0 || points[after].at === x) {
+      return { energy: points[after].energy, valence: points[after].valence };
+    }
+
+    const a = points[after - 1];
+    const b = points[after];
+    const t = (x - a.at) / (b.at - a.at);
+    return {
+      energy: a.energy + (b.energy - a.energy) * t,
+      valence: a.valence + (b.valence - a.valence) * t
+    };
+  });
+};
+
+/**
+ * How far a track's features sit from a curve target
+ */
+export const trajectoryDeviation = (actual: TrajectoryPoint, target: TrajectoryPoint): TrajectoryDeviation => {
+  const energy = actual.energy - target.energy;
+  const valence = actual.valence - target.valence;
+  return { energy, valence, distance: Math.hypot(energy, valence) };
+};
@@ -0,0 +1,147 @@
+import { TrackFeatures, TransitionScore, TransitionWeights } from '@/types';
+import { clamp } from './helpers';
+import { unscaleFeature } from './normalization';
+
+/**
+ * DJ-style mix compatibility between consecutive tracks
+ */
+
+export const KEY_NAMES = ['C', 'C♯/D♭', 'D', 'D♯/E♭', 'E', 'F', 'F♯/G♭', 'G', 'G♯/A♭', 'A', 'A♯/B♭', 'B'];
+
+export const DEFAULT_TRANSITION_WEIGHTS: TransitionWeights = {
+  key: 0.35,
+  tempo: 0.35,
+  mood: 0.3
+};
+
+// Tempo drift (after half/double time) at which the tempo score reaches 0
+const MAX_TEMPO_DRIFT = 0.08;
+
+// Energy/valence jump at which the mood score reaches 0
+const MAX_MOOD_JUMP = 0.5;
+
+/**
+ * Pitch class (0-11) from a normalized key value
+ */
+export const toPitchClass = (key: number): number => {
+  return clamp(Math.round(unscaleFeature('key', key)), 0, 11);
+};
+
+/**
+ * Camelot wheel position for a pitch class and mode (1 = major/B, 0 = minor/A).
+ * Neighbouring numbers are a fifth apart; a minor key shares its number with
+ * its relative major, three semitones up.
+ */
+export const toCamelot = (pitchClass: number, mode: number): { number: number; letter: 'A' | 'B' } => {
+  const major = mode >= 0.5;
+  const root = major ? pitchClass : (pitchClass + 3) % 12;
+  return {
+    number: ((root * 7) % 12 + 7) % 12 + 1,
+    letter: major ? 'B' : 'A'
+  };
+};
+
+const formatCamelot = ({ number, letter }: { number: number; letter: string }): string => `${number}${letter}`;
+
+/**
+ * Harmonic compatibility on the Camelot wheel: same key, relative major/minor
+ * and adjacent numbers mix cleanly; anything further apart clashes
+ */
+export const scoreKeyTransition = (from: TrackFeatures, to: TrackFeatures): TransitionScore['key'] => {
+  const a = toCamelot(toPitchClass(from.key), from.mode);
+  const b = toCamelot(toPitchClass(to.key), to.mode);
+  const steps = Math.min(Math.abs(a.number - b.number), 12 - Math.abs(a.number - b.number));
+  const sameLetter = a.letter === b.letter;
+
+  let score = 0;
+  if (steps === 0) {
+    score = sameLetter ? 1 : 0.85;
+  } else if (steps === 1) {
+    score = sameLetter ? 0.9 : 0.6;
+  } else if (steps === 2 && sameLetter) {
+    score = 0.5;
+  }
+
+  return {
+    from: `${KEY_NAMES[toPitchClass(from.key)]} ${a.letter === 'B' ? 'major' : 'minor'}`,
+    to: `${KEY_NAMES[toPitchClass(to.key)]} ${b.letter === 'B' ? 'major' : 'minor'}`,
+    from_camelot: formatCamelot(a),
+    to_camelot: formatCamelot(b),
+    score
+  };
+};
+
+/**
+ * BPM compatibility, treating half and double time as a match
+ */
+export const scoreTempoTransition = (from: TrackFeatures, to: TrackFeatures): TransitionScore['tempo'] => {
+  const fromBpm = unscaleFeature('tempo', from.tempo);
+  const toBpm = unscaleFeature('tempo', to.tempo);
+  if (fromBpm <= 0 || toBpm <= 0) {
+    return { from_bpm: fromBpm, to_bpm: toBpm, ratio: 0, relation: 'same', score: 0 };
+  }
+
+  const candidates: Array<{ relation: TransitionScore['tempo']['relation']; ratio: number }> = [
+    { relation: 'same', ratio: toBpm / fromBpm },
+    { relation: 'double', ratio: toBpm / (fromBpm * 2) },
+    { relation: 'half', ratio: (toBpm * 2) / fromBpm }
+  ];
+  const best = candidates.reduce((a, b) => Math.abs(Math.log(b.ratio)) < Math.abs(Math.log(a.ratio)) ? b : a);
+
+  return {
+    from_bpm: fromBpm,
+    to_bpm: toBpm,
+    ratio: best.ratio,
+    relation: best.relation,
+    score: clamp(1 - Math.abs(best.ratio - 1) / MAX_TEMPO_DRIFT, 0, 1)
+  };
+};
+
+/**
+ * Energy and valence jumps; small moves score high
+ */
+export const scoreMoodTransition = (from: TrackFeatures, to: TrackFeatures): TransitionScore['mood'] => {
+  const energyJump = to.energy - from.energy;
+  const valenceJump = to.valence - from.valence;
+  return {
+    energy_jump: energyJump,
+    valence_jump: valenceJump,
+    score: clamp(1 - Math.hypot(energyJump, valenceJump) / MAX_MOOD_JUMP, 0, 1)
+  };
+};
+
+/**
+ * Score the mix from one track into the next
+ */
+export const scoreTransition = (
+  from: TrackFeatures,
+  to: TrackFeatures,
+  weights: TransitionWeights = DEFAULT_TRANSITION_WEIGHTS,
+  indices: { from: number; to: number } = { from: 0, to: 1 }
+): TransitionScore => {
+  const key = scoreKeyTransition(from, to);
+  const tempo = scoreTempoTransition(from, to);
+  const mood = scoreMoodTransition(from, to);
+  const total = weights.key + weights.tempo + weights.mood;
+
+  return {
+    from_index: indices.from,
+    to_index: indices.to,
+    score: total > 0
+      ? (weights.key * key.score + weights.tempo * tempo.score + weights.mood * mood.score) / total
+      : 0,
+    key,
+    tempo,
+    mood
+  };
+};
+
+/**
+ * Score every consecutive pair in a track sequence
+ */
+export const scoreTransitions = (
+  tracks: TrackFeatures[],
+  weights: TransitionWeights = DEFAULT_TRANSITION_WEIGHTS
+): TransitionScore[] => {
+  return tracks.slice(1).map((track, i) => scoreTransition(tracks[i], track, weights, { from: i, to: i + 1 }));
+};
@@ -1,5 +1,24 @@
 import Joi from 'joi';
-import { AnalyzeRequest, TrackFeatures, ValidationError } from '@/types';
+import {
+  AnalyzeBatchRequest,
+  AnalyzeRequest,
+  AppendTracksRequest,
+  CatalogTrack,
+  CreateApiKeyRequest,
+  CreateSessionRequest,
+  EmbedRequest,
+  FieldError,
+  GeneratePlaylistRequest,
+  HistoryAnalysisQuery,
+  HistoryImportQuery,
+  PlanTrajectoryRequest,
+  RecommendRequest,
+  ScoreTransitionsRequest,
+  SpotifyTrackInput,
+  TrackFeatures,
+  ValidationError
+} from '@/types';
+import { FEATURE_ORDER } from './normalization';
 
 // Track features validation schema
 const trackFeaturesSchema = Joi.object({
@@ -25,16 +44,329 @@ const trackFeaturesSchema = Joi.object({
   playlist_position: Joi.number().min(0).max(1).required()
 });
 
+// Model-space features with any subset provided; the rest are imputed
+const partialTrackFeaturesSchema = trackFeaturesSchema
+  .fork(FEATURE_ORDER, schema => schema.optional())
+  .min(1);
+
+// Listener UTC offsets in use, from UTC-12:00 to UTC+14:00; shared by every endpoint
+const utcOffsetMinutes = Joi.number().integer().min(-720).max(840).default(0);
+
+// Spotify's key when none was detected
+const undetectedKey = Joi.number().integer().min(-1).max(11).required();
+
+// Raw Spotify audio features (normalized server-side). An undetected key (-1)
+// is only accepted where missing features are imputed.
+const spotifyAudioFeatureKeys = {
+  danceability: Joi.number().min(0).max(1).required(),
+  energy: Joi.number().min(0).max(1).required(),
+  key: Joi.number().integer().min(0).max(11).required()
+    .messages({ 'number.min': '{{#label}} must be a detected key (0-11); -1 is only accepted by /analyze' }),
+  loudness: Joi.number().min(-60).max(5).required(),
+  mode: Joi.number().valid(0, 1).required(),
+  speechiness: Joi.number().min(0).max(1).required(),
+  acousticness: Joi.number().min(0).max(1).required(),
+  instrumentalness: Joi.number().min(0).max(1).required(),
+  liveness: Joi.number().min(0).max(1).required(),
+  valence: Joi.number().min(0).max(1).required(),
+  tempo: Joi.number().min(0).max(300).required(),
+  duration_ms: Joi.number().integer().min(0).required(),
+  time_signature: Joi.number().integer().min(0).max(7).required()
+};
+
+// Raw Spotify track input validation schema
+const spotifyTrackInputSchema = Joi.object({
+  ...spotifyAudioFeatureKeys,
+  played_at: Joi.date().iso().required(),
+  utc_offset_minutes: utcOffsetMinutes,
+  skip_rate: Joi.number().min(0).max(1).optional(),
+  repeat_count: Joi.number().min(0).max(1).optional(),
+  playlist_position: Joi.number().min(0).max(1).optional()
+});
+
+// /analyze imputes an undetected key
+const spotifyPartialTrackInputSchema = spotifyTrackInputSchema.keys({ key: undetectedKey });
+
+// Tracks carrying a played_at timestamp are treated as raw Spotify features
+const analyzeTrackSchema = Joi.alternatives().conditional(
+  Joi.object({ played_at: Joi.exist() }).unknown(),
+  { then: spotifyTrackInputSchema, otherwise: trackFeaturesSchema }
+);
+
+// /analyze additionally accepts partial model-space tracks
+const analyzeInputTrackSchema = Joi.alternatives().conditional(
+  Joi.object({ played_at: Joi.exist() }).unknown(),
+  { then: spotifyPartialTrackInputSchema, otherwise: partialTrackFeaturesSchema }
+);
+
+// Play event validation schema; behavioral features are derived server-side
+const playEventInputSchema = Joi.object({
+  track_id: Joi.string().max(128).required(),
+  started_at: Joi.date().iso().required(),
+  ended_at: Joi.date().iso().min(Joi.ref('started_at')).optional(),
+  ms_played: Joi.number().integer().min(0).optional(),
+  skipped: Joi.boolean().optional(),
+  context: Joi.string().max(256).allow(null).optional(),
+  utc_offset_minutes: utcOffsetMinutes,
+  features: Joi.object({ ...spotifyAudioFeatureKeys, key: undetectedKey }).required()
+});
+
 // Analyze request validation schema
 const analyzeRequestSchema = Joi.object({
-  tracks: Joi.array().items(trackFeaturesSchema).min(1).max(100).required(),
+  tracks: Joi.array().items(analyzeInputTrackSchema).min(1).max(100),
+  play_events: Joi.array().items(playEventInputSchema).min(1).max(1000),
   options: Joi.object({
     include_insights: Joi.boolean().default(true),
     include_embeddings: Joi.boolean().default(false),
-    model_version: Joi.string().default('1.0.0')
+    model_version: Joi.string().max(64).optional()
   }).optional()
+}).xor('tracks', 'play_events');
+
+// Batch analyze request schema. Sessions are only checked for shape here;
+// each one is validated with validateAnalyzeRequest so failures stay per-session.
+const analyzeBatchRequestSchema = Joi.object({
+  sessions: Joi.array().items(Joi.object({
+    session_id: Joi.string().max(128).required(),
+    tracks: Joi.array().required(),
+    options: Joi.object().optional()
+  })).min(1).max(1000).unique('session_id').required(),
+  options: Joi.object().optional()
+});
+
+// Session request validation schemas
+const createSessionRequestSchema = Joi.object({
+  tracks: Joi.array().items(analyzeTrackSchema).max(100).default([]),
+  options: Joi.object({
+    model_version: Joi.string().max(64).optional(),
+    include_insights: Joi.boolean().default(true)
+  }).default({ include_insights: true })
 });
 
+const appendTracksRequestSchema = Joi.object({
+  tracks: Joi.array().items(analyzeTrackSchema).min(1).max(100).required()
+});
+
+// Transition scoring weights; omitted parts keep their defaults
+const transitionWeightsSchema = Joi.object({
+  key: Joi.number().min(0).max(1).default(0.35),
+  tempo: Joi.number().min(0).max(1).default(0.35),
+  mood: Joi.number().min(0).max(1).default(0.3)
+});
+
+const scoreTransitionsRequestSchema = Joi.object({
+  tracks: Joi.array().items(analyzeTrackSchema).min(2).max(100).required(),
+  weights: transitionWeightsSchema.default()
+});
+
+// Playlist generation request validation schemas
+const playlistCandidatesSchema = Joi.array().items(Joi.object({
+  id: Joi.string().min(1).max(128).required(),
+  name: Joi.string().max(256).optional(),
+  artist: Joi.string().min(1).max(256).required(),
+  features: analyzeTrackSchema.required()
+})).min(1).max(5000).unique('id');
+
+const playlistOptionKeys = {
+  strategy: Joi.string().valid('greedy', 'beam').default('beam'),
+  beam_width: Joi.number().integer().min(1).max(16).default(4),
+  artist_separation: Joi.number().integer().min(0).max(50).default(3),
+  transition_weight: Joi.number().min(0).max(1).default(0),
+  transition_weights: transitionWeightsSchema.default(),
+  model_version: Joi.string().max(64).optional()
+};
+
+const generatePlaylistRequestSchema = Joi.object({
+  seed_tracks: Joi.array().items(analyzeTrackSchema).min(1).max(100).required(),
+  candidates: playlistCandidatesSchema.required(),
+  length: Joi.number().integer().min(1).max(100).required(),
+  options: Joi.object(playlistOptionKeys).default()
+});
+
+const planTrajectoryRequestSchema = Joi.object({
+  seed_tracks: Joi.array().items(analyzeTrackSchema).max(100).default([]),
+  candidates: playlistCandidatesSchema.required(),
+  slots: Joi.number().integer().min(1).max(100).required(),
+  curve: Joi.object({
+    preset: Joi.string().valid('warmup_peak_cooldown', 'build_up', 'wind_down', 'steady', 'waves'),
+    breakpoints: Joi.array().items(Joi.object({
+      at: Joi.number().min(0).max(1).required(),
+      energy: Joi.number().min(0).max(1).required(),
+      valence: Joi.number().min(0).max(1).required()
+    })).min(1).max(100)
+  }).xor('preset', 'breakpoints').required(),
+  options: Joi.object({
+    ...playlistOptionKeys,
+    smoothness_weight: Joi.number().min(0).max(1).default(0.5)
+  }).default()
+});
+
+// Catalog lookups match on features that share a [0, 1] scale
+const unitFeature = Joi.number().min(0).max(1);
+
+const recommendRequestSchema = Joi.object({
+  features: Joi.object({
+    valence: unitFeature,
+    energy: unitFeature,
+    danceability: unitFeature,
+    acousticness: unitFeature,
+    instrumentalness: unitFeature,
+    speechiness: unitFeature,
+    liveness: unitFeature
+  }).min(1),
+  tracks: Joi.array().items(analyzeTrackSchema).min(1).max(100),
+  k: Joi.number().integer().min(1).max(100).default(10),
+  filters: Joi.object({
+    exclude_ids: Joi.array().items(Joi.string()).max(10000).default([]),
+    popularity: Joi.object({
+      min: Joi.number().min(0).max(100),
+      max: Joi.number().min(Joi.ref('min', { adjust: (min: number) => min ?? 0 })).max(100)
+    })
+  }).default(),
+  model_version: Joi.string().max(64).optional()
+}).xor('features', 'tracks');
+
+// JSON catalog file entries. History imports feed catalog features to the
+// model, so every audio feature is required, raw or already normalized.
+const catalogTrackSchema = Joi.object({
+  id: Joi.string().required(),
+  name: Joi.string().allow('').default(''),
+  artist: Joi.string().allow('').default(''),
+  album: Joi.string().allow('').default(''),
+  duration_ms: Joi.number().min(0).default(0),
+  popularity: Joi.number().min(0).max(100).default(0),
+  features: Joi.object({
+    valence: unitFeature.required(),
+    energy: unitFeature.required(),
+    danceability: unitFeature.required(),
+    acousticness: unitFeature.required(),
+    instrumentalness: unitFeature.required(),
+    speechiness: unitFeature.required(),
+    liveness: unitFeature.required(),
+    mode: unitFeature.required(),
+    key: Joi.number().min(-1).max(11).required(),
+    loudness: Joi.number().min(-60).max(5).required(),
+    tempo: Joi.number().min(0).max(300).required(),
+    duration_ms: Joi.number().min(0).required(),
+    time_signature: Joi.number().min(0).max(7).required()
+  }).unknown(true).required()
+});
+
+// History analysis query validation schema
+const historyAnalysisQuerySchema = Joi.object({
+  gap_minutes: Joi.number().min(1).max(1440).default(30),
+  max_items: Joi.number().integer().min(1).max(1000).default(50),
+  utc_offset_minutes: utcOffsetMinutes,
+  model_version: Joi.string().max(64).optional()
+});
+
+// History import query validation schema
+const historyImportQuerySchema = Joi.object({
+  gap_minutes: Joi.number().min(1).max(1440).default(30),
+  utc_offset_minutes: utcOffsetMinutes,
+  analyze: Joi.boolean().default(false),
+  max_sessions: Joi.number().integer().min(1).max(1000).default(50),
+  format: Joi.string().valid('csv', 'json').optional(),
+  model_version: Joi.string().max(64).optional()
+});
+
+// API key creation schema
+const createApiKeyRequestSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required(),
+  scopes: Joi.array().items(Joi.string().valid('analyze', 'admin', 'training')).min(1).unique().required(),
+  hourly_quota: Joi.number().integer().min(0).optional(),
+  daily_quota: Joi.number().integer().min(0).optional()
+});
+
+// Embed request validation schema
+const embedRequestSchema = Joi.object({
+  model_version: Joi.string().max(64).optional(),
+  sessions: Joi.array().items(Joi.object({
+    session_id: Joi.string().max(128).required(),
+    tracks: Joi.array().items(analyzeTrackSchema).min(1).max(100).required()
+  })).min(1).max(500).unique('session_id').required()
+});
+
+// Longest string value echoed back in a field error
+const MAX_ECHOED_LENGTH = 200;
+
+/**
+ * Render a Joi path as a JSON path, e.g. tracks[0].energy
+ */
+const formatPath = (path: Array<string | number>): string =>
+  path.reduce<string>((result, key) => {
+    if (typeof key === 'number') {
+      return `${result}[${key}]`;
+    }
+    return result ? `${result}.${key}` : key;
+  }, '');
+
+/**
+ * What the field should have been: allowed values, required peers, a pattern,
+ * or the type named by a *.base error
+ */
+const expectedFor = (detail: Joi.ValidationErrorItem): unknown => {
+  const context: Joi.Context = detail.context || {};
+  if (context.valids) {
+    return context.valids;
+  }
+  if (context.peers) {
+    return context.peers;
+  }
+  if (context.regex) {
+    return String(context.regex);
+  }
+  const [kind, rule] = detail.type.split('.');
+  return rule === 'base' ? kind : undefined;
+};
+
+const echoedValue = (value: unknown): FieldError['value'] => {
+  if (typeof value === 'string') {
+    return value.slice(0, MAX_ECHOED_LENGTH);
+  }
+  if (typeof value === 'number' || typeof value === 'boolean' || value === null) {
+    return value;
+  }
+  return undefined;
+};
+
+/**
+ * Field errors for Joi details, with paths optionally nested under `prefix`
+ */
+const toFieldErrors = (details: Joi.ValidationErrorItem[], prefix: Array<string | number> = []): FieldError[] =>
+  details.map(detail => {
+    const fieldError: FieldError = {
+      path: formatPath([...prefix, ...detail.path]),
+      type: detail.type,
+      message: detail.message
+    };
+    const limit = detail.context?.limit;
+    const expected = expectedFor(detail);
+    const value = echoedValue(detail.context?.value);
+
+    if (limit !== undefined) {
+      fieldError.limit = limit;
+    }
+    if (expected !== undefined) {
+      fieldError.expected = expected;
+    }
+    if (value !== undefined) {
+      fieldError.value = value;
+    }
+    return fieldError;
+  });
+
+/**
+ * ValidationError carrying every failed field; the message joins their texts
+ */
+const toValidationError = (
+  summary: string,
+  details: Joi.ValidationErrorItem[],
+  prefix: Array<string | number> = []
+): ValidationError => {
+  const errorMessage = details.map(detail => detail.message).join(', ');
+  return new ValidationError(`${summary}: ${errorMessage}`, toFieldErrors(details, prefix));
+};
+
 /**
  * Validate analyze request
  */
@@ -45,13 +377,206 @@ export const validateAnalyzeRequest = (data: any): AnalyzeRequest => {
   });
 
   if (error) {
-    const errorMessage = error.details.map(detail => detail.message).join(', ');
-    throw new ValidationError(`Validation failed: ${errorMessage}`);
+    throw toValidationError('Validation failed', error.details);
   }
 
   return value as AnalyzeRequest;
 };
 
+/**
+ * Validate the outer shape of a batch analyze request
+ */
+export const validateAnalyzeBatchRequest = (data: any): AnalyzeBatchRequest => {
+  const { error, value } = analyzeBatchRequestSchema.validate(data, {
+    abortEarly: false,
+    stripUnknown: true
+  });
+
+  if (error) {
+    throw toValidationError('Validation failed', error.details);
+  }
+
+  return value as AnalyzeBatchRequest;
+};
+
+/**
+ * Validate create session request
+ */
+export const validateCreateSessionRequest = (data: any): CreateSessionRequest => {
+  const { error, value } = createSessionRequestSchema.validate(data || {}, {
+    abortEarly: false,
+    stripUnknown: true
+  });
+
+  if (error) {
+    throw toValidationError('Validation failed', error.details);
+  }
+
+  return value as CreateSessionRequest;
+};
+
+/**
+ * Validate append tracks request
+ */
+export const validateAppendTracksRequest = (data: any): AppendTracksRequest => {
+  const { error, value } = appendTracksRequestSchema.validate(data, {
+    abortEarly: false,
+    stripUnknown: true
+  });
+
+  if (error) {
+    throw toValidationError('Validation failed', error.details);
+  }
+
+  return value as AppendTracksRequest;
+};
+
+/**
+ * Validate transition scoring request
+ */
+export const validateScoreTransitionsRequest = (data: any): ScoreTransitionsRequest => {
+  const { error, value } = scoreTransitionsRequestSchema.validate(data, {
+    abortEarly: false,
+    stripUnknown: true
+  });
+
+  if (error) {
+    throw toValidationError('Validation failed', error.details);
+  }
+
+  return value as ScoreTransitionsRequest;
+};
+
+/**
+ * Validate playlist generation request
+ */
+export const validateGeneratePlaylistRequest = (data: any): GeneratePlaylistRequest => {
+  const { error, value } = generatePlaylistRequestSchema.validate(data, {
+    abortEarly: false,
+    stripUnknown: true
+  });
+
+  if (error) {
+    throw toValidationError('Validation failed', error.details);
+  }
+
+  return value as GeneratePlaylistRequest;
+};
+
+/**
+ * Validate trajectory plan request
+ */
+export const validatePlanTrajectoryRequest = (data: any): PlanTrajectoryRequest => {
+  const { error, value } = planTrajectoryRequestSchema.validate(data, {
+    abortEarly: false,
+    stripUnknown: true
+  });
+
+  if (error) {
+    throw toValidationError('Validation failed', error.details);
+  }
+
+  return value as PlanTrajectoryRequest;
+};
+
+/**
+ * Validate recommend request
+ */
+export const validateRecommendRequest = (data: any): RecommendRequest => {
+  const { error, value } = recommendRequestSchema.validate(data, {
+    abortEarly: false,
+    stripUnknown: true
+  });
+
+  if (error) {
+    throw toValidationError('Validation failed', error.details);
+  }
+
+  return value as RecommendRequest;
+};
+
+/**
+ * Validate the entries of a JSON track catalog
+ */
+export const validateCatalogTracks = (data: any): CatalogTrack[] => {
+  const { error, value } = Joi.array().items(catalogTrackSchema).validate(data, {
+    abortEarly: false,
+    stripUnknown: true
+  });
+
+  if (error) {
+    throw toValidationError('Invalid catalog', error.details.slice(0, 10));
+  }
+
+  return value as CatalogTrack[];
+};
+
+/**
+ * Validate history analysis query parameters
+ */
+export const validateHistoryAnalysisQuery = (data: any): HistoryAnalysisQuery => {
+  const { error, value } = historyAnalysisQuerySchema.validate(data || {}, {
+    abortEarly: false,
+    stripUnknown: true,
+    convert: true
+  });
+
+  if (error) {
+    throw toValidationError('Validation failed', error.details);
+  }
+
+  return value as HistoryAnalysisQuery;
+};
+
+/**
+ * Validate history import query parameters
+ */
+export const validateHistoryImportQuery = (data: any): HistoryImportQuery => {
+  const { error, value } = historyImportQuerySchema.validate(data || {}, {
+    abortEarly: false,
+    stripUnknown: true,
+    convert: true
+  });
+
+  if (error) {
+    throw toValidationError('Validation failed', error.details);
+  }
+
+  return value as HistoryImportQuery;
+};
+
+/**
+ * Validate API key creation request
+ */
+export const validateCreateApiKeyRequest = (data: any): CreateApiKeyRequest => {
+  const { error, value } = createApiKeyRequestSchema.validate(data, {
+    abortEarly: false,
+    stripUnknown: true
+  });
+
+  if (error) {
+    throw toValidationError('Validation failed', error.details);
+  }
+
+  return value as CreateApiKeyRequest;
+};
+
+/**
+ * Validate embed request
+ */
+export const validateEmbedRequest = (data: any): EmbedRequest => {
+  const { error, value } = embedRequestSchema.validate(data, {
+    abortEarly: false,
+    stripUnknown: true
+  });
+
+  if (error) {
+    throw toValidationError('Validation failed', error.details);
+  }
+
+  return value as EmbedRequest;
+};
+
 /**
  * Validate track features
  */
@@ -62,27 +587,49 @@ export const validateTrackFeatures = (data: any): TrackFeatures => {
   });
 
   if (error) {
-    const errorMessage = error.details.map(detail => detail.message).join(', ');
-    throw new ValidationError(`Track features validation failed: ${errorMessage}`);
+    throw toValidationError('Track features validation failed', error.details);
   }
 
   return value as TrackFeatures;
 };
 
+/**
+ * Validate raw Spotify audio features
+ */
+export const validateSpotifyTrackInput = (data: any): SpotifyTrackInput => {
+  const { error, value } = spotifyTrackInputSchema.validate(data, {
+    abortEarly: false,
+    stripUnknown: true
+  });
+
+  if (error) {
+    throw toValidationError('Spotify features validation failed', error.details);
+  }
+
+  return value as SpotifyTrackInput;
+};
+
 /**
  * Validate array of track features
  */
 export const validateTrackFeaturesArray = (data: any[]): TrackFeatures[] => {
   if (!Array.isArray(data)) {
-    throw new ValidationError('Expected an array of track features');
+    throw new ValidationError('Expected an array of track features', [
+      { path: '', type: 'array.base', message: 'Expected an array of track features', expected: 'array' }
+    ]);
   }
 
   return data.map((track, index) => {
-    try {
-      return validateTrackFeatures(track);
-    } catch (error) {
-      throw new ValidationError(`Track ${index}: ${error instanceof Error ? error.message : 'Validation failed'}`);
+    const { error, value } = trackFeaturesSchema.validate(track, {
+      abortEarly: false,
+      stripUnknown: true
+    });
+
+    if (error) {
+      throw toValidationError(`Track ${index}: Track features validation failed`, error.details, [index]);
     }
+
+    return value as TrackFeatures;
   });
 };
 
@@ -130,7 +677,9 @@ export const validateSequenceLength = (length: number): boolean => {
  */
 export const sanitizeString = (input: string, maxLength = 1000): string => {
   if (typeof input !== 'string') {
-    throw new ValidationError('Input must be a string');
+    throw new ValidationError('Input must be a string', [
+      { path: '', type: 'string.base', message: 'Input must be a string', expected: 'string' }
+    ]);
   }
   
   return input
@@ -144,7 +693,9 @@ export const sanitizeString = (input: string, maxLength = 1000): string => {
  */
 export const sanitizeFilename = (filename: string): string => {
   if (typeof filename !== 'string') {
-    throw new ValidationError('Filename must be a string');
+    throw new ValidationError('Filename must be a string', [
+      { path: '', type: 'string.base', message: 'Filename must be a string', expected: 'string' }
+    ]);
   }
   
   return filename
@@ -196,8 +747,7 @@ export const validateWithSchema = <T>(data: any, schema: Joi.ObjectSchema): T =>
   });
 
   if (error) {
-    const errorMessage = error.details.map(detail => detail.message).join(', ');
-    throw new ValidationError(`Validation failed: ${errorMessage}`);
+    throw toValidationError('Validation failed', error.details);
   }
 
   return value as T;
@@ -218,6 +768,13 @@ export const validateConfig = (config: any): void => {
       maxSequenceLength: Joi.number().integer().min(1).max(1000).required()
     }).required(),
     
+    registry: Joi.object({
+      directory: Joi.string().required(),
+      defaultVersion: Joi.string().required(),
+      watch: Joi.boolean().required(),
+      watchDebounceMs: Joi.number().integer().min(0).required()
+    }).required(),
+
     training: Joi.object({
       batchSize: Joi.number().integer().min(1).max(1000).required(),
       numEpochs: Joi.number().integer().min(1).required(),
@@ -232,24 +789,73 @@ export const validateConfig = (config: any): void => {
       trainSplit: Joi.number().min(0.1).max(0.9).required(),
       minTracksPerSession: Joi.number().integer().min(1).required()
     }).required(),
+
+    analysis: Joi.object({
+      recencyHalfLife: Joi.number().min(0.1).required(),
+      confidencePasses: Joi.number().integer().min(2).max(200).required()
+    }).required(),
+
+    scheduler: Joi.object({
+      windowMs: Joi.number().integer().min(0).max(1000).required(),
+      maxBatchRows: Joi.number().integer().min(100).required()
+    }).required(),
     
+    sessions: Joi.object({
+      ttlMs: Joi.number().integer().min(1000).required(),
+      maxTracks: Joi.number().integer().min(1).max(100).required()
+    }).required(),
+
+    catalog: Joi.object({
+      source: Joi.string().valid('csv', 'json', 'none').required(),
+      path: Joi.string().required(),
+      maxTracks: Joi.number().integer().min(1).required()
+    }).required(),
+
+    imports: Joi.object({
+      maxBytes: Joi.number().integer().min(1).required(),
+      minMatchScore: Joi.number().min(0).max(1).required()
+    }).required(),
+
     spotify: Joi.object({
       clientId: Joi.string().required(),
       clientSecret: Joi.string().required(),
-      redirectUri: Joi.string().uri().required()
+      redirectUri: Joi.string().uri().required(),
+      accountsBaseUrl: Joi.string().uri().required(),
+      apiBaseUrl: Joi.string().uri().required(),
+      scopes: Joi.array().items(Joi.string()).min(1).required()
     }).required(),
     
+    auth: Joi.object({
+      required: Joi.boolean().required(),
+      store: Joi.string().valid('memory', 'file').required(),
+      storePath: Joi.string().required(),
+      hourlyQuota: Joi.number().integer().min(0).required(),
+      dailyQuota: Joi.number().integer().min(0).required()
+    }).required(),
+
+    rateLimit: Joi.object({
+      enabled: Joi.boolean().required(),
+      limit: Joi.number().integer().min(1).required(),
+      windowMs: Joi.number().integer().min(1).required(),
+      defaultCost: Joi.number().min(0).required(),
+      routeCosts: Joi.object().pattern(
+        Joi.string().pattern(/^(GET|POST|PUT|PATCH|DELETE) \//),
+        Joi.number().min(0)
+      ).required(),
+      trustProxy: Joi.boolean().required()
+    }).required(),
+
     api: Joi.object({
       port: Joi.number().integer().min(1).max(65535).required(),
       host: Joi.string().required(),
-      corsOrigins: Joi.array().items(Joi.string()).required()
+      corsOrigins: Joi.array().items(Joi.string()).required(),
+      adminKey: Joi.string().allow('').required()
     }).required()
   });
 
   const { error } = configSchema.validate(config);
   
   if (error) {
-    const errorMessage = error.details.map(detail => detail.message).join(', ');
-    throw new ValidationError(`Configuration validation failed: ${errorMessage}`);
+    throw toValidationError('Configuration validation failed', error.details);
   }
 };